@@ -0,0 +1,23 @@
+import { LineItem, PurchaseOrder } from '../types';
+import { detectCurrency } from '../currency/currency';
+
+// --- Currency Inference ---
+/**
+ * The currency rawText states, by code or symbol, limited to `codes` when given.
+ */
+export function inferCurrencyFromRawText(rawText: string, codes?: string[]): string | null {
+    return detectCurrency(rawText, codes)?.code ?? null;
+}
+
+// --- PO Matching ---
+export function findMatchingPO(vendor: string, invoiceLineItems: LineItem[], purchaseOrders: PurchaseOrder[]): PurchaseOrder | null {
+    const vendorPOs = purchaseOrders.filter(po => po.vendor === vendor);
+    if (vendorPOs.length === 0) return null;
+    const invoiceDescriptions = invoiceLineItems.map(li => li.description.toLowerCase().trim());
+    const matchingPOs = vendorPOs.filter(po => {
+        const poDescriptions = po.lineItems.map(li => li.description.toLowerCase().trim());
+        return invoiceDescriptions.every(desc => poDescriptions.includes(desc));
+    });
+    if (matchingPOs.length === 1) return matchingPOs[0];
+    return null;
+}
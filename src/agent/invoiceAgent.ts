@@ -0,0 +1,1057 @@
+import { AttributeMemory, getVendorMemory, rejectVendorAttribute, rememberVendorAttribute, rememberVendorCorrection, rememberVendorVatRate, skuKeyOf, VendorAttribute, VendorProfile } from '../memory/vendorMemory';
+import { correctionKeyOf, rememberCorrectionApproval, rememberCorrectionRejection, resolveCorrectionMemory } from '../memory/correctionMemory';
+import { ConfidenceEvidence, ConfidenceModel, DEFAULT_CONFIDENCE_MODEL, effectiveConfidence } from '../memory/confidenceModel';
+import { recordApproval, recordRejection } from '../memory/resolutionMemory';
+import { CandidateLearningOptions, DEFAULT_CANDIDATE_LEARNING, describeCandidate, getActiveCandidates, learnFromFieldCorrection, matchCandidate } from '../memory/candidateMemory';
+import { getMemoryStore, MemoryStore } from '../memory/memoryStore';
+import { journaled, MemoryEventSource, withMemorySource } from '../memory/memoryJournal';
+import { AuditMemoryRef, DeliveryNote, ExchangeRate, ExtractedInvoice, HumanCorrection, InvoiceRunResult, LineItem, ProposedCorrection, PurchaseOrder } from '../types';
+import { AGENT_VERSION, AuditLog } from '../audit/auditLog';
+import { getFieldValue, setFieldValue } from '../corrections/applyCorrections';
+import { DEFAULT_MATCH_TOLERANCES, LineMatch, matchInvoiceLines, MatchTolerances } from '../matching/threeWayMatch';
+import { currencyDecimals, fromMinorUnits, RoundingMode, TaxRounding, toMinorUnits } from '../tax/money';
+import { computeTax, parseStatedTotal, parseVatRate, VatRateSource } from '../tax/taxEngine';
+import { ArithmeticTolerances, checkArithmetic, DEFAULT_ARITHMETIC_TOLERANCES, describeArithmetic } from '../validation/arithmetic';
+import { parsePaymentTerms, schedulePayment } from '../payments/paymentTerms';
+import { loadRules, renderTemplate, RuleDefinition, RuleRegistry } from '../rules/ruleRegistry';
+import { ReviewQueue } from '../review/reviewQueue';
+import { evaluateRule, isRuleApplicable, RuleHit } from '../rules/ruleMatcher';
+import { validateExtractedInvoice, validateHumanCorrection } from '../validation/documentSchemas';
+import { dateFormatOf, formatIssues, normalizeDate, ValidationError, ValidationIssue } from '../validation/schema';
+import { VendorIdentity, VendorRegistry } from '../vendors/vendorRegistry';
+import { checkAndRecordDuplicate, DEFAULT_DUPLICATE_OPTIONS, DuplicateDetectionOptions } from '../duplicates/duplicateDetector';
+import { ExtractableField, extractableFieldOf, extractFields, ExtractionOptions, findLabel } from '../extraction/labelExtractor';
+import { detectCurrency, findCurrencyMismatches } from '../currency/currency';
+import { ExchangeRateTable } from '../currency/exchangeRates';
+import { DecisionExplanation, DecisionPolicy, DEFAULT_DECISION_POLICY, evaluateDecision, explainDecision } from '../decision/decisionPolicy';
+
+export interface AgentThresholds {
+    /** Minimum memory confidence for a learned action to be applied without review. */
+    autoApply: number;
+}
+
+export interface InvoiceAgentConfig {
+    /** Memory backend. Defaults to the process-wide store. Mutations are journaled either way. */
+    memoryStore?: MemoryStore;
+    /** Purchase orders to match against, or a function returning the current set. */
+    purchaseOrders?: PurchaseOrder[] | (() => PurchaseOrder[]);
+    /** Delivery notes for three-way matching, or a function returning the current set. */
+    deliveryNotes?: DeliveryNote[] | (() => DeliveryNote[]);
+    /** Exchange rates by date, or a function returning the current set. */
+    exchangeRates?: ExchangeRateTable | ExchangeRate[] | (() => ExchangeRate[]);
+    /** Company currency invoice amounts are converted into, e.g. "EUR". */
+    baseCurrency?: string;
+    matchTolerances?: Partial<MatchTolerances>;
+    /** Allowed line and total differences, in minor units of the invoice currency. */
+    arithmetic?: Partial<ArithmeticTolerances>;
+    thresholds?: Partial<AgentThresholds>;
+    /** When an invoice needs review. `minScore` defaults to `thresholds.autoApply`. */
+    decisionPolicy?: Partial<DecisionPolicy>;
+    /** How stored approvals, rejections and their age turn into confidence. */
+    confidence?: Partial<ConfidenceModel>;
+    /** When corrections learned from reviewers become active patterns. */
+    learning?: Partial<CandidateLearningOptions>;
+    /** Near-duplicate detection settings. */
+    duplicates?: Partial<DuplicateDetectionOptions>;
+    /** VAT rate in percent used when neither the document nor vendor memory provides one. */
+    defaultVatRate?: number;
+    /** Vendor registry, or master data to seed the registry in the memory store with. */
+    vendors?: VendorRegistry | VendorIdentity[];
+    /** Rules evaluated for every invoice. Defaults to the bundled `data/rules.json`. */
+    rules?: RuleRegistry | RuleDefinition[];
+    /** Source of "now" for audit timestamps. */
+    clock?: () => Date;
+    /** ID the audit records of this agent are filed under. Defaults to one per agent instance. */
+    runId?: string;
+    /** Version recorded in audit records. Defaults to the package version. */
+    agentVersion?: string;
+    /** Tenant whose memory `memoryStore` holds; recorded in audit records. */
+    tenantId?: string;
+}
+
+const QTY_PATTERN_ID = "QTY_MISMATCH_USE_DN_QTY";
+
+/** Correction patterns recognized by field name or reason; anything else is learned as a candidate. */
+const KNOWN_PATTERNS: Array<{ patternId: string; description: string; action: string; matches: (field: string, reason: string) => boolean }> = [
+    { patternId: QTY_PATTERN_ID, description: "Quantity Mismatch", action: "Use Delivery Note Quantity", matches: (field, reason) => reason.includes('quantity mismatch') || field === 'quantity' },
+    { patternId: "VAT_INCLUDED_IN_TOTAL", description: "VAT Handling", action: "Totals already include VAT", matches: (field, reason) => reason.includes('vat') || field.includes('vat') },
+    { patternId: "CURRENCY_MISMATCH", description: "Currency Mismatch", action: "Correct currency based on vendor", matches: (field, reason) => reason.includes('currency') || field === 'currency' }
+];
+
+/**
+ * Vendor profile attribute a corrected field is remembered as, if any.
+ */
+function correctedAttributeOf(field: string, value: unknown): VendorAttribute | null {
+    if (field.includes('servicedate')) return "serviceDateLabel";
+    if (field === 'currency' && typeof value === 'string') return "defaultCurrency";
+    if ((field === 'vatincluded' || field === 'pricesincludevat') && typeof value === 'boolean') return "pricesIncludeVAT";
+    if ((field === 'discountterms' || field === 'paymentterms') && typeof value === 'string') return "paymentTerms";
+    return null;
+}
+
+export const DEFAULT_THRESHOLDS: AgentThresholds = {
+    autoApply: 0.6
+};
+
+/**
+ * Memory-driven invoice processing engine.
+ *
+ * Holds no global state: everything it reads or learns goes through the
+ * configured memory store, so several agents can be embedded side by side.
+ */
+export class InvoiceAgent {
+    readonly store: MemoryStore;
+    readonly thresholds: AgentThresholds;
+    readonly decisionPolicy: DecisionPolicy;
+    readonly confidenceModel: ConfidenceModel;
+    readonly rules: RuleRegistry;
+    readonly reviewQueue: ReviewQueue;
+    readonly vendors: VendorRegistry;
+    readonly auditLog: AuditLog;
+    readonly runId: string;
+    readonly agentVersion: string;
+    readonly tenantId: string | null;
+    readonly baseCurrency: string | null;
+    private readonly poSource: PurchaseOrder[] | (() => PurchaseOrder[]);
+    private readonly dnSource: DeliveryNote[] | (() => DeliveryNote[]);
+    private readonly rateSource: ExchangeRateTable | ExchangeRate[] | (() => ExchangeRate[]);
+    private readonly matchTolerances: MatchTolerances;
+    private readonly arithmeticTolerances: ArithmeticTolerances;
+    private readonly duplicateOptions: DuplicateDetectionOptions;
+    private readonly learningOptions: CandidateLearningOptions;
+    private readonly clock: () => Date;
+    private readonly defaultVatRate?: number;
+
+    constructor(config: InvoiceAgentConfig = {}) {
+        this.clock = config.clock ?? (() => new Date());
+        this.store = journaled(config.memoryStore ?? getMemoryStore(), this.clock);
+        this.thresholds = { ...DEFAULT_THRESHOLDS, ...config.thresholds };
+        this.decisionPolicy = { ...DEFAULT_DECISION_POLICY, minScore: this.thresholds.autoApply, ...config.decisionPolicy };
+        this.confidenceModel = { ...DEFAULT_CONFIDENCE_MODEL, ...config.confidence };
+        this.rules = config.rules instanceof RuleRegistry ? config.rules : config.rules ? new RuleRegistry(config.rules) : loadRules();
+        this.poSource = config.purchaseOrders ?? [];
+        this.dnSource = config.deliveryNotes ?? [];
+        this.rateSource = config.exchangeRates ?? [];
+        this.baseCurrency = config.baseCurrency?.toUpperCase() ?? null;
+        this.matchTolerances = { ...DEFAULT_MATCH_TOLERANCES, ...config.matchTolerances };
+        this.arithmeticTolerances = { ...DEFAULT_ARITHMETIC_TOLERANCES, ...config.arithmetic };
+        this.duplicateOptions = { ...DEFAULT_DUPLICATE_OPTIONS, ...config.duplicates };
+        this.learningOptions = { ...DEFAULT_CANDIDATE_LEARNING, ...config.learning };
+        this.defaultVatRate = config.defaultVatRate;
+        this.reviewQueue = new ReviewQueue(this.store, this.clock);
+        this.auditLog = new AuditLog(this.store);
+        this.runId = config.runId ?? `run-${this.timestamp()}`;
+        this.agentVersion = config.agentVersion ?? AGENT_VERSION;
+        this.tenantId = config.tenantId ?? null;
+        if (config.vendors instanceof VendorRegistry) {
+            this.vendors = config.vendors;
+        } else {
+            this.vendors = new VendorRegistry(this.store);
+            if (config.vendors) this.vendors.seed(config.vendors);
+        }
+    }
+
+    /**
+     * Processes one invoice. All memory reads and writes for the invoice commit together,
+     * along with its audit record. Results that need review are added to the review queue. The input is validated
+     * and normalized first; an invalid document yields a rejected result instead of throwing.
+     */
+    async process(invoice: ExtractedInvoice, simulateHumanFeedback: boolean = false): Promise<InvoiceRunResult> {
+        const reviewId = this.reviewIdOf(invoice);
+        return withMemorySource(this.store, { type: "system", id: reviewId }, () => this.store.transaction(() => {
+            const validation = validateExtractedInvoice(invoice);
+            const result = validation.ok
+                ? this.runInvoice(validation.value, invoice.fields.invoiceDate, simulateHumanFeedback)
+                : this.rejectInvoice(invoice, validation.issues);
+            // Simulated feedback already taught memory; only real reviews go to the queue
+            if (result.requiresHumanReview && (!simulateHumanFeedback || !validation.ok)) {
+                this.reviewQueue.enqueue(reviewId, result);
+            }
+            this.auditLog.record(this.runId, reviewId, result, { agentVersion: this.agentVersion, tenantId: this.tenantId ?? undefined });
+            return result;
+        }));
+    }
+
+    /**
+     * Processes invoices sequentially, in input order.
+     */
+    async processBatch(invoices: ExtractedInvoice[], simulateHumanFeedback: boolean = false): Promise<InvoiceRunResult[]> {
+        const results: InvoiceRunResult[] = [];
+        for (const invoice of invoices) {
+            results.push(await this.process(invoice, simulateHumanFeedback));
+        }
+        return results;
+    }
+
+    /**
+     * Learns from one human correction.
+     */
+    applyFeedback(correction: HumanCorrection): void {
+        const validation = validateHumanCorrection(correction);
+        if (!validation.ok) throw new ValidationError("human correction", validation.issues);
+        const source = { type: "correction" as const, id: validation.value.correctionId };
+        withMemorySource(this.store, source, () => this.store.transaction(() => this.replayCorrection(validation.value)));
+    }
+
+    /**
+     * Purchase orders with their vendor spelled the canonical way.
+     */
+    private purchaseOrders(): PurchaseOrder[] {
+        const orders = typeof this.poSource === 'function' ? this.poSource() : this.poSource;
+        return orders.map(po => ({ ...po, vendor: this.vendors.resolve(po.vendor)?.name ?? po.vendor }));
+    }
+
+    /** The vendor's PO with that number; PO numbers are only unique per vendor. */
+    private purchaseOrderOf(poNumber: string | null | undefined, vendorName: string): PurchaseOrder | null {
+        if (!poNumber) return null;
+        return this.purchaseOrders().find(p => p.poNumber === poNumber && p.vendor === vendorName) ?? null;
+    }
+
+    private deliveryNotes(): DeliveryNote[] {
+        return typeof this.dnSource === 'function' ? this.dnSource() : this.dnSource;
+    }
+
+    private exchangeRates(): ExchangeRateTable {
+        if (this.rateSource instanceof ExchangeRateTable) return this.rateSource;
+        return new ExchangeRateTable(typeof this.rateSource === 'function' ? this.rateSource() : this.rateSource);
+    }
+
+    private timestamp(): string {
+        return this.clock().toISOString();
+    }
+
+    private confidenceOf(evidence: ConfidenceEvidence): number {
+        return effectiveConfidence(evidence, this.clock(), this.confidenceModel);
+    }
+
+    private patternMemory(patternId: string, vendor: string) {
+        return resolveCorrectionMemory(patternId, vendor, this.store, this.confidenceModel.globalFallback);
+    }
+
+    /**
+     * Learns from every corrected field, in the direction of the reviewer's decision.
+     * Profile attributes and the known patterns learn directly; any other field
+     * becomes a candidate pattern that activates after consistent approvals.
+     */
+    private replayCorrection(correction: HumanCorrection): void {
+        const { fieldsCorrected, finalDecision, correctionId, rawText } = correction;
+        const approved = finalDecision === 'approved';
+        const vendor = this.vendors.resolveOrRegister(correction.vendor).vendorId;
+        for (const fc of fieldsCorrected) {
+            const extractable = extractableFieldOf(fc.field);
+            if (extractable) {
+                // A field read from rawText teaches the label it follows
+                if (!this.learnFieldLabel(vendor, extractable, fc.correctedValue, approved, rawText)) {
+                    learnFromFieldCorrection(vendor, fc, finalDecision, correctionId, this.store, this.learningOptions, rawText);
+                }
+                continue;
+            }
+            const field = fc.field.toLowerCase();
+            const reason = fc.reason.toLowerCase();
+            const attribute = correctedAttributeOf(field, fc.correctedValue);
+            if (attribute) {
+                const value = attribute === "defaultCurrency" ? String(fc.correctedValue).toUpperCase()
+                    : attribute === "serviceDateLabel" ? String(fc.correctedValue)
+                    : fc.correctedValue;
+                if (approved) {
+                    rememberVendorAttribute(vendor, attribute, value, "corrected", this.store);
+                } else if (getVendorMemory(vendor, this.store)?.attributes[attribute as keyof VendorProfile['attributes']]?.value === value) {
+                    rejectVendorAttribute(vendor, attribute, this.store);
+                }
+            }
+            const patterns = KNOWN_PATTERNS.filter(p => p.matches(field, reason));
+            for (const { patternId, description, action } of patterns) {
+                approved ? rememberCorrectionApproval(patternId, description, action, this.store, vendor) : rememberCorrectionRejection(patternId, this.store, vendor);
+            }
+            if (!attribute && patterns.length === 0) {
+                learnFromFieldCorrection(vendor, fc, finalDecision, correctionId, this.store, this.learningOptions, rawText);
+            }
+        }
+        const memId = `VENDOR:${vendor}:correction`;
+        approved ? recordApproval(memId, this.store) : recordRejection(memId, this.store);
+    }
+
+    /**
+     * Remembers the label printed before a corrected value as the vendor's label for
+     * the field, or counts against it when the correction was rejected. Returns false
+     * when rawText does not show the value after a label.
+     */
+    private learnFieldLabel(vendor: string, field: ExtractableField, value: unknown, approved: boolean, rawText?: string): boolean {
+        if (!rawText) return false;
+        const profile = getVendorMemory(vendor, this.store);
+        const label = findLabel(rawText, field, value, profile?.attributes.dateFormat?.value);
+        if (!label) return false;
+        const [attribute, key] = field === "serviceDate" ? ["serviceDateLabel" as const, undefined] : ["fieldLabels" as const, field];
+        const stored = key === undefined ? profile?.attributes.serviceDateLabel : profile?.fieldLabels[key];
+        if (approved) {
+            rememberVendorAttribute(vendor, attribute, label, "corrected", this.store, key);
+        } else if (stored?.value === label) {
+            rejectVendorAttribute(vendor, attribute, this.store, key);
+        }
+        return true;
+    }
+
+    private reviewIdOf(invoice: ExtractedInvoice): string {
+        // Untrusted input: the document may be null or not an object at all
+        const invoiceId = invoice !== null && typeof invoice === 'object' ? (invoice as Partial<ExtractedInvoice>).invoiceId : undefined;
+        return typeof invoiceId === 'string' && invoiceId.trim() ? invoiceId.trim() : `REJECTED-${this.timestamp()}`;
+    }
+
+    /**
+     * Result for a document that failed validation: nothing is recorded or learned,
+     * and the field-level problems are handed to the reviewer.
+     */
+    private rejectInvoice(raw: unknown, issues: ValidationIssue[]): InvoiceRunResult {
+        const doc = (typeof raw === 'object' && raw !== null ? raw : {}) as Partial<ExtractedInvoice>;
+        const fields = (typeof doc.fields === 'object' && doc.fields !== null ? doc.fields : {}) as Partial<ExtractedInvoice['fields']>;
+        const text = (value: unknown): string => typeof value === 'string' ? value : "";
+        const currency = typeof fields.currency === 'string' ? fields.currency : null;
+        const decision = evaluateDecision({ proposals: [], validationIssues: issues, duplicateCheck: null, match: null, tax: null, arithmetic: null, currencyCheck: null, amount: null, currency }, this.decisionPolicy);
+        return {
+            normalizedInvoice: {
+                vendor: text(doc.vendor),
+                vendorId: "",
+                invoiceNumber: text(fields.invoiceNumber),
+                invoiceDate: text(fields.invoiceDate),
+                currency,
+                serviceDateLabel: null,
+                pricesIncludeVAT: false,
+                poNumber: typeof fields.poNumber === 'string' ? fields.poNumber : null,
+                discountTerms: null,
+                lineItems: [],
+                totals: null,
+                serviceDate: null,
+                dueDate: null,
+                taxId: null,
+                statedTotals: null,
+                provenance: {}
+            },
+            proposedCorrections: [],
+            validationIssues: issues,
+            duplicateCheck: null,
+            match: null,
+            tax: null,
+            arithmetic: null,
+            currency: null,
+            payment: null,
+            requiresHumanReview: true,
+            reasoning: `Rejected: invalid input (${formatIssues(issues).join("; ")})`,
+            confidenceScore: 0,
+            decision,
+            memoryUpdates: [],
+            auditTrail: [{ step: "validate", timestamp: this.timestamp(), details: `Rejected with ${issues.length} validation issue(s)`, data: { issues: formatIssues(issues) } }]
+        };
+    }
+
+    private runInvoice(extracted: ExtractedInvoice, rawDate: string, simulateHumanFeedback: boolean): InvoiceRunResult {
+        // Memory is keyed by the canonical vendor ID; everything else sees the canonical name
+        const identity = this.vendors.resolveOrRegister(extracted.vendor, extracted.rawText);
+        const vendor = identity.vendorId;
+        const invoice: ExtractedInvoice = { ...extracted, vendor: identity.name };
+        const { fields, invoiceId } = invoice;
+        const { invoiceNumber, invoiceDate, currency, lineItems, poNumber: existingPO } = fields;
+
+        const result: InvoiceRunResult = {
+            normalizedInvoice: { vendor: identity.name, vendorId: vendor, invoiceNumber, invoiceDate, currency, serviceDateLabel: null, pricesIncludeVAT: false, poNumber: existingPO || null, discountTerms: null, lineItems: lineItems.map(li => ({ ...li })), totals: null, serviceDate: null, dueDate: null, taxId: null, statedTotals: null, provenance: {} },
+            proposedCorrections: [],
+            validationIssues: [],
+            duplicateCheck: null,
+            match: null,
+            tax: null,
+            arithmetic: null,
+            currency: null,
+            payment: null,
+            requiresHumanReview: true,
+            reasoning: "",
+            confidenceScore: 0,
+            decision: { requiresHumanReview: true, confidenceScore: 0, factors: [] },
+            memoryUpdates: [],
+            auditTrail: []
+        };
+
+        result.auditTrail.push({ step: "ingest", timestamp: this.timestamp(), details: `Loaded invoice ${invoiceId}`, data: { invoiceId, vendorId: vendor } });
+        if (identity.matchedBy !== "name" && identity.matchedBy !== "id") {
+            const resembles = identity.suggestedVendorId ? `; resembles ${identity.suggestedVendorId}, confirm the alias to share its memory` : "";
+            const details = identity.matchedBy === "new"
+                ? `Registered new vendor '${identity.name}' as ${vendor}${resembles}`
+                : `Resolved vendor '${extracted.vendor}' to ${vendor} by ${identity.matchedBy}`;
+            const data = { vendorName: extracted.vendor, vendorId: vendor, matchedBy: identity.matchedBy, confidence: identity.confidence, suggestedVendorId: identity.suggestedVendorId };
+            result.auditTrail.push({ step: "ingest", timestamp: this.timestamp(), details, data });
+        }
+        const profile = getVendorMemory(vendor, this.store);
+        this.recallInvoiceDate(rawDate, profile, vendor, result);
+
+        // Duplicate Check
+        const dated = { ...fields, invoiceDate: result.normalizedInvoice.invoiceDate };
+        const dupResult = checkAndRecordDuplicate({ ...invoice, vendor, fields: dated }, this.store, this.duplicateOptions);
+        result.duplicateCheck = dupResult;
+        if (dupResult.classification === "exact_duplicate") {
+            result.reasoning = `Duplicate invoice (Seen ${dupResult.seenCount} times)`;
+            result.decision = this.decide(result);
+            const data = { classification: dupResult.classification, seenCount: dupResult.seenCount };
+            result.auditTrail.push({ step: "duplicate_check", timestamp: this.timestamp(), details: `Duplicate. seenCount=${dupResult.seenCount}`, data });
+            return result;
+        }
+        const similarTo = dupResult.matches.map(m => m.invoiceId ?? m.duplicateKey).join(", ");
+        result.auditTrail.push({
+            step: "duplicate_check",
+            timestamp: this.timestamp(),
+            details: dupResult.classification === "unique" ? "Unique invoice." : `${dupResult.classification} of ${similarTo} (score=${dupResult.score})`,
+            data: { classification: dupResult.classification, score: dupResult.score, matches: dupResult.matches.map(m => m.invoiceId ?? m.duplicateKey) }
+        });
+
+        // Extraction
+        this.extractFromRawText(invoice, profile, result);
+
+        // Rules; the only memory they write is simulated feedback
+        const feedback: MemoryEventSource = { type: "simulated-feedback", id: invoiceId };
+        for (const rule of this.rules.forVendor(identity.name)) {
+            const hits = evaluateRule(rule, invoice, this.purchaseOrders());
+            if (hits.length === 0 && rule.auditMiss && isRuleApplicable(rule, invoice)) {
+                result.auditTrail.push({ step: rule.auditStep, timestamp: this.timestamp(), details: rule.auditMiss, data: { ruleId: rule.id } });
+            }
+            for (const hit of hits) {
+                withMemorySource(this.store, feedback, () => this.applyRule(rule, hit, vendor, result, simulateHumanFeedback));
+            }
+        }
+
+        // Learned Patterns
+        this.applyLearnedPatterns(invoice, vendor, result);
+
+        // Vendor Profile
+        this.recallProfile(profile, vendor, result);
+
+        // Three-way Match
+        this.matchAgainstDeliveries(invoice, vendor, result);
+
+        // Tax
+        this.computeInvoiceTax(invoice, vendor, result);
+
+        // Arithmetic
+        this.checkInvoiceArithmetic(vendor, result);
+
+        // Currency
+        this.checkInvoiceCurrency(invoice, result);
+
+        // Payment Terms
+        this.schedulePayment(result);
+
+        // Recall
+        const vendorMem = getVendorMemory(vendor, this.store);
+        const labelMem = vendorMem?.attributes.serviceDateLabel;
+        let vendorConfidence = 0;
+        if (vendorMem) {
+            vendorConfidence = labelMem ? this.confidenceOf(labelMem) : 0;
+            const memory = labelMem ? this.vendorMemoryRef(vendor, "serviceDateLabel", vendorConfidence) : undefined;
+            result.auditTrail.push({ step: "recall", timestamp: this.timestamp(), details: `Vendor Memory: confidence=${vendorConfidence}`, data: { memory } });
+        } else {
+            result.auditTrail.push({ step: "recall", timestamp: this.timestamp(), details: `No Vendor Memory for '${identity.name}'` });
+        }
+
+        const patternId = QTY_PATTERN_ID;
+
+        // Decision
+        this.recallAttribute(result, vendor, "serviceDateLabel", labelMem, "serviceDateLabel", "Vendor service date label");
+        const poRequired = vendorMem?.attributes.poRequired;
+        const hasPO = result.normalizedInvoice.poNumber !== null || result.proposedCorrections.some(p => p.field === "poNumber");
+        const missingRequiredPO = !!poRequired?.value && !hasPO && this.confidenceOf(poRequired) >= this.thresholds.autoApply;
+        const learnedVatRate = result.tax?.rateSource === "vendorMemory" ? vendorMem?.attributes.vatRate : undefined;
+        const vatRateConfidence = learnedVatRate ? this.confidenceOf(learnedVatRate) : undefined;
+        const unconfirmedVatRate = vatRateConfidence !== undefined && vatRateConfidence < this.thresholds.autoApply ? vatRateConfidence : undefined;
+        const decision = this.decide(result, vendorMem ? vendorConfidence : null, missingRequiredPO, unconfirmedVatRate);
+        result.decision = decision;
+        result.requiresHumanReview = decision.requiresHumanReview;
+        result.confidenceScore = decision.confidenceScore;
+        result.reasoning = explainDecision(decision);
+        const forcedBy = [...new Set(decision.factors.filter(f => f.forcesReview).map(f => f.kind))];
+        result.auditTrail.push({
+            step: "decide",
+            timestamp: this.timestamp(),
+            details: `requiresHumanReview=${result.requiresHumanReview}${forcedBy.length > 0 ? ` (${forcedBy.join(", ")})` : ""}`,
+            data: { requiresHumanReview: result.requiresHumanReview, confidenceScore: result.confidenceScore, reasoning: result.reasoning, factors: decision.factors }
+        });
+
+        // Learning
+        this.observeProfile(invoice, rawDate, vendor, result);
+        if (simulateHumanFeedback && result.requiresHumanReview) {
+            withMemorySource(this.store, feedback, () => {
+                rememberVendorCorrection(vendor, "Leistungsdatum", this.store);
+                result.memoryUpdates.push(`Updated Vendor Memory for '${identity.name}'`);
+                rememberCorrectionApproval(patternId, "Quantity Mismatch", "Use Delivery Note Quantity", this.store, vendor);
+                for (const proposal of result.proposedCorrections) {
+                    // Profile recalls; rule proposals were confirmed when the rule fired
+                    if (!proposal.vendorAttribute || proposal.patternId !== null || proposal.vendorAttribute === "serviceDateLabel") continue;
+                    rememberVendorAttribute(vendor, proposal.vendorAttribute, proposal.newValue, "confirmed", this.store, proposal.attributeKey);
+                }
+                recordApproval(`VENDOR:${vendor}:serviceDateLabel`, this.store);
+                result.auditTrail.push({ step: "learn", timestamp: this.timestamp(), details: "Human Feedback: Approved", data: { memoryUpdates: [...result.memoryUpdates] } });
+            });
+        } else if (!result.requiresHumanReview) {
+            recordApproval(`VENDOR:${vendor}:serviceDateLabel`, this.store);
+            result.memoryUpdates.push(`Recorded System Success`);
+        }
+
+        return result;
+    }
+
+    /**
+     * Proposes the corrections the vendor's active learned patterns call for,
+     * auto-applied once their Correction Memory is confident.
+     */
+    private applyLearnedPatterns(invoice: ExtractedInvoice, vendor: string, result: InvoiceRunResult): void {
+        for (const candidate of getActiveCandidates(vendor, this.store)) {
+            const patternMem = this.patternMemory(candidate.patternId, vendor);
+            if (!patternMem) continue;
+            const confidence = this.confidenceOf(patternMem);
+            const autoApplied = confidence >= this.thresholds.autoApply;
+            const newValue = candidate.correctedValue;
+            for (const { field, oldValue } of matchCandidate(candidate, result.normalizedInvoice, invoice.rawText)) {
+                if (result.proposedCorrections.some(p => p.field === field)) continue;
+                if (autoApplied) {
+                    setFieldValue(result.normalizedInvoice, field, newValue);
+                    const memory: AuditMemoryRef = { collection: "correction", key: correctionKeyOf(patternMem.patternId, patternMem.vendor), confidence };
+                    result.auditTrail.push({ step: "apply", timestamp: this.timestamp(), details: `Auto-applied ${field}='${newValue}'`, data: { patternId: candidate.patternId, field, oldValue, newValue, memory } });
+                }
+                this.propose(result, {
+                    field,
+                    oldValue,
+                    newValue,
+                    description: `Set ${field} = ${newValue}`,
+                    patternId: candidate.patternId,
+                    reason: `Learned from corrections: ${describeCandidate(candidate)}`,
+                    confidence,
+                    autoApplied,
+                    memoryId: `VENDOR:${vendor}:${candidate.patternId}`
+                });
+            }
+        }
+    }
+
+    /**
+     * Runs the decision policy over everything the result holds so far.
+     */
+    private decide(result: InvoiceRunResult, vendorConfidence?: number | null, missingRequiredPO?: boolean, unconfirmedVatRate?: number): DecisionExplanation {
+        const normalized = result.normalizedInvoice;
+        const base = result.currency?.base;
+        // Exact duplicates stop before the currency check; with a base currency, their amount is not assessed
+        const assessed = !this.baseCurrency || result.currency !== null;
+        return evaluateDecision({
+            proposals: result.proposedCorrections,
+            validationIssues: result.validationIssues,
+            duplicateCheck: result.duplicateCheck,
+            match: result.match,
+            tax: result.tax,
+            arithmetic: result.arithmetic,
+            currencyCheck: result.currency,
+            amount: assessed ? base?.amount ?? this.grossOf(normalized) : null,
+            currency: base?.currency ?? normalized.currency,
+            baseCurrency: this.baseCurrency,
+            vendorConfidence,
+            missingRequiredPO,
+            unconfirmedVatRate
+        }, this.decisionPolicy);
+    }
+
+    private applyRule(rule: RuleDefinition, hit: RuleHit, vendor: string, result: InvoiceRunResult, simulateHumanFeedback: boolean): void {
+        const ruleData = { ruleId: rule.id, ...(rule.patternId ? { patternId: rule.patternId } : {}) };
+        result.auditTrail.push({ step: rule.auditStep, timestamp: this.timestamp(), details: renderTemplate(rule.audit, hit.value, hit.description), data: { ...ruleData, value: hit.value } });
+
+        const field = hit.lineIndex === undefined ? rule.action.field : rule.action.field.replace('lineItems.', `lineItems[${hit.lineIndex}].`);
+        const oldValue = getFieldValue(result.normalizedInvoice, field);
+        const patternMem = rule.patternId ? this.patternMemory(rule.patternId, vendor) : null;
+        const patternConfidence = patternMem ? this.confidenceOf(patternMem) : 0;
+        const confident = !!patternMem && patternConfidence >= this.thresholds.autoApply;
+        const autoApplied = confident || rule.applyWhen === 'always';
+        if (autoApplied) {
+            setFieldValue(result.normalizedInvoice, field, hit.value);
+        }
+        if (confident) {
+            const memory: AuditMemoryRef = { collection: "correction", key: correctionKeyOf(patternMem.patternId, patternMem.vendor), confidence: patternConfidence };
+            result.auditTrail.push({ step: "apply", timestamp: this.timestamp(), details: `Auto-applied ${field}='${hit.value}'`, data: { ...ruleData, field, oldValue, newValue: hit.value, memory } });
+        }
+
+        const description = rule.proposal ? renderTemplate(rule.proposal, hit.value, hit.description) : null;
+        if (description) {
+            this.propose(result, {
+                field,
+                oldValue,
+                newValue: hit.value,
+                description,
+                patternId: rule.patternId ?? null,
+                reason: rule.description,
+                confidence: patternConfidence,
+                autoApplied,
+                memoryId: `VENDOR:${vendor}:${rule.resolutionKey ?? rule.id}`,
+                vendorAttribute: rule.vendorAttribute,
+                ...(rule.vendorAttribute === "skuMappings" ? { attributeKey: hit.description } : {})
+            });
+        }
+
+        if (simulateHumanFeedback) {
+            if (rule.patternId) {
+                rememberCorrectionApproval(rule.patternId, rule.description, description ?? rule.description, this.store, vendor);
+                recordApproval(`VENDOR:${vendor}:${rule.resolutionKey ?? rule.id}`, this.store);
+                result.memoryUpdates.push(`Updated Correction Memory for '${rule.patternId}'`);
+            }
+            if (rule.vendorAttribute) {
+                rememberVendorAttribute(vendor, rule.vendorAttribute, hit.value, "confirmed", this.store, hit.description);
+                result.memoryUpdates.push(`Updated Vendor Memory with ${rule.action.field}`);
+            }
+        }
+    }
+
+    /**
+     * Reads service date, due date, tax ID, stated totals and a missing PO number from
+     * rawText, trying the labels learned for the vendor before the built-in ones.
+     */
+    private extractFromRawText(invoice: ExtractedInvoice, profile: VendorProfile | null, result: InvoiceRunResult): void {
+        const labels: ExtractionOptions['labels'] = {};
+        const serviceDateLabel = profile?.attributes.serviceDateLabel;
+        if (serviceDateLabel) labels.serviceDate = { label: serviceDateLabel.value, confidence: this.confidenceOf(serviceDateLabel) };
+        for (const [key, memory] of Object.entries(profile?.fieldLabels ?? {})) {
+            const field = extractableFieldOf(key);
+            if (field && field !== "serviceDate") labels[field] = { label: memory.value, confidence: this.confidenceOf(memory) };
+        }
+        const extracted = extractFields(invoice.rawText, { labels, dateFormat: profile?.attributes.dateFormat?.value });
+
+        const normalized = result.normalizedInvoice;
+        const { serviceDate, dueDate, taxId, poNumber, totalNet, totalTax, totalGross } = extracted;
+        normalized.serviceDate = (serviceDate?.value as string | undefined) ?? null;
+        normalized.dueDate = (dueDate?.value as string | undefined) ?? null;
+        normalized.taxId = (taxId?.value as string | undefined) ?? null;
+        if (totalNet || totalTax || totalGross) {
+            normalized.statedTotals = {
+                ...(totalNet ? { net: totalNet.value as number } : {}),
+                ...(totalTax ? { tax: totalTax.value as number } : {}),
+                ...(totalGross ? { gross: totalGross.value as number } : {})
+            };
+        }
+        // The extractor's own PO number wins; rawText only fills a gap
+        if (poNumber && normalized.poNumber === null) normalized.poNumber = poNumber.value as string;
+
+        const fields = (Object.keys(extracted) as ExtractableField[]).filter(f => f !== "poNumber" || normalized.poNumber === poNumber?.value);
+        if (fields.length === 0) return;
+        for (const field of fields) normalized.provenance[field] = extracted[field]!.provenance;
+        const details = fields.map(f => `${f}=${extracted[f]!.value} ('${extracted[f]!.provenance.label}', line ${extracted[f]!.provenance.line})`).join(", ");
+        const data = Object.fromEntries(fields.map(f => [f, { value: extracted[f]!.value, ...extracted[f]!.provenance }]));
+        result.auditTrail.push({ step: "extract", timestamp: this.timestamp(), details: `Read from rawText: ${details}`, data });
+    }
+
+    /**
+     * Re-reads an ambiguous invoice date such as 03/04/2025 in the format the vendor
+     * is known to write dates in.
+     */
+    private recallInvoiceDate(rawDate: string, profile: VendorProfile | null, vendor: string, result: InvoiceRunResult): void {
+        const format = profile?.attributes.dateFormat;
+        if (!format) return;
+        const date = normalizeDate(rawDate, format.value);
+        const normalized = result.normalizedInvoice;
+        if (!date || date === normalized.invoiceDate) return;
+
+        const confidence = this.confidenceOf(format);
+        if (confidence >= this.thresholds.autoApply) {
+            result.auditTrail.push({
+                step: "apply",
+                timestamp: this.timestamp(),
+                details: `Read invoice date '${rawDate}' as ${format.value}: ${date}`,
+                data: { field: "invoiceDate", oldValue: normalized.invoiceDate, newValue: date, memory: this.vendorMemoryRef(vendor, "dateFormat", confidence) }
+            });
+            normalized.invoiceDate = date;
+            return;
+        }
+        this.propose(result, {
+            field: "invoiceDate",
+            oldValue: normalized.invoiceDate,
+            newValue: date,
+            description: `Set invoiceDate = ${date} (${format.value})`,
+            patternId: null,
+            reason: "Vendor date format",
+            confidence,
+            autoApplied: false,
+            memoryId: `VENDOR:${vendor}:dateFormat`
+        });
+    }
+
+    /**
+     * Fills fields the document left empty from the vendor profile. Each attribute
+     * stands on its own confidence.
+     */
+    private recallProfile(profile: VendorProfile | null, vendor: string, result: InvoiceRunResult): void {
+        if (!profile) return;
+        const { attributes } = profile;
+        const normalized = result.normalizedInvoice;
+        if (normalized.currency === null) {
+            this.recallAttribute(result, vendor, "defaultCurrency", attributes.defaultCurrency, "currency", "Vendor default currency");
+        }
+        if (!normalized.pricesIncludeVAT && attributes.pricesIncludeVAT?.value) {
+            this.recallAttribute(result, vendor, "pricesIncludeVAT", attributes.pricesIncludeVAT, "pricesIncludeVAT", "Vendor prices include VAT");
+        }
+        if (normalized.discountTerms === null) {
+            this.recallAttribute(result, vendor, "paymentTerms", attributes.paymentTerms, "discountTerms", "Vendor payment terms");
+        }
+        normalized.lineItems.forEach((li, i) => {
+            if (li.sku) return;
+            this.recallAttribute(result, vendor, "skuMappings", profile.skuMappings[skuKeyOf(li.description)], `lineItems[${i}].sku`, "Vendor SKU mapping", li.description);
+        });
+    }
+
+    /**
+     * Applies a remembered attribute value when confident, otherwise proposes it.
+     * Fields something else already proposed a value for are left alone.
+     */
+    private recallAttribute<T>(result: InvoiceRunResult, vendor: string, attribute: VendorAttribute, memory: AttributeMemory<T> | undefined, field: string, reason: string, key?: string): void {
+        if (!memory || result.proposedCorrections.some(p => p.field === field)) return;
+        const confidence = this.confidenceOf(memory);
+        if (confidence >= this.thresholds.autoApply) {
+            const oldValue = getFieldValue(result.normalizedInvoice, field);
+            setFieldValue(result.normalizedInvoice, field, memory.value);
+            const data = { field, oldValue, newValue: memory.value, memory: this.vendorMemoryRef(vendor, attribute, confidence, key) };
+            result.auditTrail.push({ step: "apply", timestamp: this.timestamp(), details: `Auto-applied ${field}='${memory.value}'`, data });
+            return;
+        }
+        this.propose(result, {
+            field,
+            oldValue: getFieldValue(result.normalizedInvoice, field),
+            newValue: memory.value,
+            description: `Set ${field} = ${memory.value}`,
+            patternId: null,
+            reason,
+            confidence,
+            autoApplied: false,
+            memoryId: `VENDOR:${vendor}:${attribute}`,
+            vendorAttribute: attribute,
+            ...(key !== undefined ? { attributeKey: key } : {})
+        });
+    }
+
+    /**
+     * Reinforces the vendor profile with what the document itself states: its
+     * currency, date format, whether it carries a PO number, its SKUs and how it rounds.
+     */
+    private observeProfile(invoice: ExtractedInvoice, rawDate: string, vendor: string, result: InvoiceRunResult): void {
+        const { poNumber, lineItems } = invoice.fields;
+        const observations: Array<{ attribute: VendorAttribute; value: unknown; key?: string }> = [
+            { attribute: "poRequired", value: !!poNumber }
+        ];
+        // Without an extracted currency, one printed next to the amounts is as good
+        const stated = result.currency?.stated;
+        const currency = invoice.fields.currency ?? (stated?.nextToAmount ? stated.code : null);
+        if (currency) observations.push({ attribute: "defaultCurrency", value: currency });
+        // A date like 03/04/2025 reads either way and says nothing about the format
+        const dayFirst = dateFormatOf(rawDate, "DD");
+        if (dayFirst && dayFirst === dateFormatOf(rawDate, "MM")) observations.push({ attribute: "dateFormat", value: dayFirst });
+        for (const li of lineItems) {
+            if (li.sku) observations.push({ attribute: "skuMappings", value: li.sku, key: li.description });
+        }
+        // Only amounts the roundings disagree on show how the vendor rounds
+        const observed = result.arithmetic?.observed;
+        if (observed?.lineRounding) observations.push({ attribute: "lineRounding", value: observed.lineRounding });
+        if (observed?.taxRounding) observations.push({ attribute: "taxRounding", value: observed.taxRounding });
+
+        const before = getVendorMemory(vendor, this.store);
+        for (const { attribute, value, key } of observations) {
+            const known = attribute === "skuMappings" ? before?.skuMappings[skuKeyOf(key!)] : before?.attributes[attribute as keyof VendorProfile['attributes']];
+            rememberVendorAttribute(vendor, attribute, value, "observed", this.store, key);
+            if (known?.value !== value) {
+                result.memoryUpdates.push(`Updated Vendor Memory with ${attribute}${key !== undefined ? `['${key}']` : ""}=${value}`);
+            }
+        }
+    }
+
+    /**
+     * Matches invoice lines against the PO and its delivery notes. Where the invoiced
+     * quantity differs from the delivered one, proposes the delivery note quantity,
+     * auto-applied once the learned QTY_MISMATCH_USE_DN_QTY pattern is confident.
+     * Without delivery notes, a quantity other than the ordered one goes to review.
+     */
+    private matchAgainstDeliveries(invoice: ExtractedInvoice, vendor: string, result: InvoiceRunResult): void {
+        const normalized = result.normalizedInvoice;
+        const poNumber = normalized.poNumber ?? result.proposedCorrections.find(p => p.field === "poNumber")?.newValue as string | undefined;
+        const po = this.purchaseOrderOf(poNumber, invoice.vendor);
+        if (!po) return;
+
+        // Prices in different currencies only compare once converted into the PO's
+        let lines = normalized.lineItems;
+        let tolerances = this.matchTolerances;
+        let compared = "";
+        if (po.currency && normalized.currency && po.currency !== normalized.currency) {
+            const rate = this.exchangeRates().rate(normalized.currency, po.currency, normalized.invoiceDate);
+            if (rate) {
+                const decimals = currencyDecimals(po.currency);
+                lines = lines.map(li => ({
+                    ...li,
+                    unitPrice: fromMinorUnits(toMinorUnits(li.unitPrice * rate.rate, decimals + 2), decimals + 2),
+                    totalPrice: fromMinorUnits(toMinorUnits(li.totalPrice * rate.rate, decimals), decimals)
+                }));
+                compared = `, prices converted to ${po.currency} at ${Number(rate.rate.toPrecision(6))} (${rate.date})`;
+            } else {
+                tolerances = { ...tolerances, unitPricePercent: Infinity };
+                compared = `, prices not compared: no ${normalized.currency}/${po.currency} rate for ${normalized.invoiceDate}`;
+            }
+        }
+
+        const match = matchInvoiceLines(lines, po, this.deliveryNotes(), tolerances);
+        result.match = match;
+        result.auditTrail.push({ step: "match", timestamp: this.timestamp(), details: `Three-way match against ${po.poNumber}: ${match.status}${compared}`, data: { poNumber: po.poNumber, status: match.status, ...(compared ? { invoiceCurrency: normalized.currency, poCurrency: po.currency } : {}) } });
+
+        const qtyMem = this.patternMemory(QTY_PATTERN_ID, vendor);
+        const qtyConfidence = qtyMem ? this.confidenceOf(qtyMem) : 0;
+        const confident = !!qtyMem && qtyConfidence >= this.thresholds.autoApply;
+        const decimals = currencyDecimals(normalized.currency);
+        for (const line of match.lines) {
+            const li = normalized.lineItems[line.lineIndex];
+            if (line.priceStatus === "variance") {
+                result.auditTrail.push({
+                    step: "match",
+                    timestamp: this.timestamp(),
+                    details: `Unit price ${line.invoiceUnitPrice} for '${li.description}' deviates ${line.unitPriceVariancePercent}% from PO price ${line.poUnitPrice}`,
+                    data: { lineIndex: line.lineIndex, status: "price_variance", invoiceUnitPrice: line.invoiceUnitPrice, poUnitPrice: line.poUnitPrice, variancePercent: line.unitPriceVariancePercent }
+                });
+            }
+            if (line.quantityStatus !== "variance") continue;
+            if (line.deliveredQuantity === null) {
+                this.reviewOrderedQuantity(line, li, po.poNumber, vendor, result);
+                continue;
+            }
+
+            const delivered = line.deliveredQuantity;
+            const newTotal = fromMinorUnits(toMinorUnits(delivered * li.unitPrice, decimals), decimals);
+            const notes = line.deliveryNoteNumbers.join(", ");
+            result.auditTrail.push({
+                step: "match",
+                timestamp: this.timestamp(),
+                details: `Invoiced quantity ${li.quantity} for '${li.description}' differs from delivered ${delivered} (${notes})`,
+                data: { lineIndex: line.lineIndex, status: "quantity_variance", invoicedQuantity: li.quantity, deliveredQuantity: delivered, deliveryNotes: line.deliveryNoteNumbers }
+            });
+
+            const shared = { confidence: qtyConfidence, autoApplied: confident };
+            this.propose(result, {
+                ...shared,
+                field: `lineItems[${line.lineIndex}].quantity`,
+                oldValue: li.quantity,
+                newValue: delivered,
+                description: `Set quantity = ${delivered} for '${li.description}' (delivery note ${notes})`,
+                patternId: QTY_PATTERN_ID,
+                reason: qtyMem?.description ?? "Quantity Mismatch",
+                memoryId: `VENDOR:${vendor}:quantity`
+            });
+            this.propose(result, {
+                ...shared,
+                field: `lineItems[${line.lineIndex}].totalPrice`,
+                oldValue: li.totalPrice,
+                newValue: newTotal,
+                description: `Set totalPrice = ${newTotal} for '${li.description}'`,
+                patternId: null,
+                reason: "Line total follows delivered quantity",
+                memoryId: `VENDOR:${vendor}:lineTotal`
+            });
+            if (confident) {
+                normalized.lineItems[line.lineIndex] = { ...li, quantity: delivered, totalPrice: newTotal };
+                const memory: AuditMemoryRef = { collection: "correction", key: correctionKeyOf(QTY_PATTERN_ID, qtyMem.vendor), confidence: qtyConfidence };
+                result.auditTrail.push({
+                    step: "apply",
+                    timestamp: this.timestamp(),
+                    details: `Auto-applied delivery note quantity ${delivered} for '${li.description}'`,
+                    data: { patternId: QTY_PATTERN_ID, field: `lineItems[${line.lineIndex}].quantity`, oldValue: li.quantity, newValue: delivered, memory }
+                });
+            }
+        }
+    }
+
+    /**
+     * Without a delivery note, only the PO says how much may be billed: a different
+     * quantity is logged and proposed back to the ordered one, for review.
+     */
+    private reviewOrderedQuantity(line: LineMatch, li: LineItem, poNumber: string, vendor: string, result: InvoiceRunResult): void {
+        const ordered = line.orderedQuantity!;
+        result.auditTrail.push({
+            step: "match",
+            timestamp: this.timestamp(),
+            details: `Invoiced quantity ${li.quantity} for '${li.description}' differs from ordered ${ordered} (${poNumber}); no delivery note`,
+            data: { lineIndex: line.lineIndex, status: "quantity_variance", invoicedQuantity: li.quantity, orderedQuantity: ordered, poNumber }
+        });
+        this.propose(result, {
+            field: `lineItems[${line.lineIndex}].quantity`,
+            oldValue: li.quantity,
+            newValue: ordered,
+            description: `Set quantity = ${ordered} for '${li.description}' (ordered on ${poNumber})`,
+            patternId: null,
+            reason: "Quantity differs from the PO and no delivery note confirms it",
+            confidence: 0,
+            autoApplied: false,
+            memoryId: `VENDOR:${vendor}:orderedQuantity`
+        });
+    }
+
+    /**
+     * Derives net, tax and gross once a VAT rate is known: from rawText, else the
+     * line items' own rates, else the vendor's learned rate, else the configured
+     * default. A learned rate below `thresholds.autoApply` is still used, but the
+     * decision then requires review. Every rate printed on the document is
+     * remembered for the vendor.
+     */
+    private computeInvoiceTax(invoice: ExtractedInvoice, vendor: string, result: InvoiceRunResult): void {
+        const { rawText, fields } = invoice;
+        const parsedRate = parseVatRate(rawText);
+        const learned = getVendorMemory(vendor, this.store)?.attributes.vatRate;
+        const learnedRate = learned?.value;
+
+        let vatRate: number | undefined;
+        let rateSource: VatRateSource;
+        if (parsedRate !== null) {
+            vatRate = parsedRate;
+            rateSource = "rawText";
+        } else if (fields.lineItems.length > 0 && fields.lineItems.every(li => li.vatRate !== undefined)) {
+            vatRate = fields.lineItems[0].vatRate!;
+            rateSource = "line";
+        } else if (learnedRate !== undefined) {
+            vatRate = learnedRate;
+            rateSource = "vendorMemory";
+        } else if (this.defaultVatRate !== undefined) {
+            vatRate = this.defaultVatRate;
+            rateSource = "default";
+        } else {
+            if (result.normalizedInvoice.pricesIncludeVAT) {
+                result.auditTrail.push({ step: "tax", timestamp: this.timestamp(), details: "No VAT rate known; tax not recomputed" });
+            }
+            return;
+        }
+
+        const { taxRounding } = this.learnedRounding(vendor);
+        const tax = computeTax({
+            lineItems: result.normalizedInvoice.lineItems,
+            pricesIncludeVAT: result.normalizedInvoice.pricesIncludeVAT,
+            vatRate,
+            rateSource,
+            statedTotal: parseStatedTotal(rawText),
+            taxRounding: taxRounding?.value,
+            decimals: currencyDecimals(result.normalizedInvoice.currency)
+        });
+        result.tax = tax;
+        result.normalizedInvoice.totals = tax.totals;
+        const onTotal = tax.taxRounding === "on_total" ? ", VAT on the total as learned for the vendor" : "";
+        const details = `VAT ${vatRate}% (${rateSource}${onTotal}): net=${tax.totals.net}, tax=${tax.totals.tax}, gross=${tax.totals.gross}`;
+        const data = { vatRate, rateSource, ...tax.totals, ...(rateSource === "vendorMemory" ? { memory: this.vendorMemoryRef(vendor, "vatRate", this.confidenceOf(learned!)) } : {}), ...(onTotal ? { taxRounding: tax.taxRounding } : {}) };
+        result.auditTrail.push({ step: "tax", timestamp: this.timestamp(), details, data });
+        for (const discrepancy of tax.discrepancies) {
+            result.auditTrail.push({ step: "tax", timestamp: this.timestamp(), details: discrepancy.details, data: { ...discrepancy } });
+        }
+
+        if (parsedRate !== null) {
+            // Every sighting reinforces the rate, so it becomes confident enough to rely on
+            rememberVendorVatRate(vendor, parsedRate, this.store);
+            if (parsedRate !== learnedRate) result.memoryUpdates.push(`Updated Vendor Memory with vatRate=${parsedRate}`);
+        }
+    }
+
+    /**
+     * The vendor's rounding habits that are confident enough to judge its invoices by.
+     */
+    private learnedRounding(vendor: string): { lineRounding?: AttributeMemory<RoundingMode>; taxRounding?: AttributeMemory<TaxRounding> } {
+        const attributes = getVendorMemory(vendor, this.store)?.attributes;
+        const confident = <T>(memory: AttributeMemory<T> | undefined) => memory && this.confidenceOf(memory) >= this.thresholds.autoApply ? memory : undefined;
+        return { lineRounding: confident(attributes?.lineRounding), taxRounding: confident(attributes?.taxRounding) };
+    }
+
+    /**
+     * Checks that line totals are quantity × unit price and add up to the totals printed
+     * on the document. Differences the vendor's learned rounding explains are accepted;
+     * every other one is a finding that sends the invoice to review.
+     */
+    private checkInvoiceArithmetic(vendor: string, result: InvoiceRunResult): void {
+        const normalized = result.normalizedInvoice;
+        const { lineRounding, taxRounding } = this.learnedRounding(vendor);
+        const arithmetic = checkArithmetic({
+            lineItems: normalized.lineItems,
+            pricesIncludeVAT: normalized.pricesIncludeVAT,
+            stated: normalized.statedTotals,
+            vatRate: result.tax?.vatRate ?? null,
+            decimals: currencyDecimals(normalized.currency),
+            lineRounding: lineRounding?.value,
+            taxRounding: taxRounding?.value
+        }, this.arithmeticTolerances);
+        result.arithmetic = arithmetic;
+
+        // Habits other than commercial rounding per line change the verdict, so name the memory behind them
+        const habits = [
+            ...(lineRounding && lineRounding.value !== "half_up" ? [{ attribute: "lineRounding" as const, value: lineRounding.value, memory: this.vendorMemoryRef(vendor, "lineRounding", this.confidenceOf(lineRounding)) }] : []),
+            ...(taxRounding && taxRounding.value !== "per_line" ? [{ attribute: "taxRounding" as const, value: taxRounding.value, memory: this.vendorMemoryRef(vendor, "taxRounding", this.confidenceOf(taxRounding)) }] : [])
+        ];
+        const judgedBy = habits.length > 0 ? ` (vendor's ${habits.map(h => `${h.attribute}=${h.value}`).join(", ")})` : "";
+        result.auditTrail.push({
+            step: "arithmetic",
+            timestamp: this.timestamp(),
+            details: `${describeArithmetic(arithmetic)}${judgedBy}`,
+            data: { findings: arithmetic.findings.length, observed: arithmetic.observed, ...(habits.length > 0 ? { memory: habits[0].memory, learnedRounding: habits } : {}) }
+        });
+        for (const finding of arithmetic.findings) {
+            const field = finding.lineIndex !== undefined ? `lineItems[${finding.lineIndex}].totalPrice` : undefined;
+            result.auditTrail.push({ step: "arithmetic", timestamp: this.timestamp(), details: finding.details, data: { ...finding, ...(field ? { field } : {}) } });
+        }
+    }
+
+    /**
+     * Gross amount of the invoice, or the sum of its line totals before tax is known.
+     */
+    private grossOf(normalized: InvoiceRunResult['normalizedInvoice']): number {
+        const decimals = currencyDecimals(normalized.currency);
+        return normalized.totals?.gross ?? fromMinorUnits(normalized.lineItems.reduce((sum, li) => sum + toMinorUnits(li.totalPrice, decimals), 0), decimals);
+    }
+
+    /**
+     * Compares the invoice currency with the one its text states and the one its
+     * purchase order is priced in, and converts the gross into the base currency.
+     */
+    private checkInvoiceCurrency(invoice: ExtractedInvoice, result: InvoiceRunResult): void {
+        const normalized = result.normalizedInvoice;
+        const stated = detectCurrency(invoice.rawText);
+        const po = this.purchaseOrderOf(result.match?.poNumber, invoice.vendor);
+        const mismatches = findCurrencyMismatches(normalized.currency, stated, po);
+        const base = this.baseCurrency && normalized.currency
+            ? this.exchangeRates().convert(this.grossOf(normalized), normalized.currency, this.baseCurrency, normalized.invoiceDate)
+            : null;
+        result.currency = { currency: normalized.currency, stated, mismatches, base };
+
+        for (const mismatch of mismatches) {
+            result.auditTrail.push({ step: "currency", timestamp: this.timestamp(), details: mismatch.details, data: { ...mismatch } });
+        }
+        if (base && base.originalCurrency !== base.currency) {
+            const details = `${base.original} ${base.originalCurrency} = ${base.amount} ${base.currency} at ${base.rate} (${base.rateDate})`;
+            result.auditTrail.push({ step: "currency", timestamp: this.timestamp(), details, data: { ...base } });
+        } else if (this.baseCurrency && normalized.currency && !base) {
+            const details = `No ${normalized.currency}/${this.baseCurrency} rate for ${normalized.invoiceDate}; amount not converted`;
+            result.auditTrail.push({ step: "currency", timestamp: this.timestamp(), details, data: { currency: normalized.currency, baseCurrency: this.baseCurrency } });
+        }
+    }
+
+    /**
+     * Structures the invoice's payment terms and works out when to pay how much.
+     * Terms come from rawText or the vendor profile, via `discountTerms`.
+     */
+    private schedulePayment(result: InvoiceRunResult): void {
+        const normalized = result.normalizedInvoice;
+        const terms = normalized.discountTerms ? parsePaymentTerms(normalized.discountTerms) : null;
+        if (!terms) return;
+        const decimals = currencyDecimals(normalized.currency);
+        const lineTotal = fromMinorUnits(normalized.lineItems.reduce((sum, li) => sum + toMinorUnits(li.totalPrice, decimals), 0), decimals);
+        const payment = schedulePayment(terms, normalized.invoiceDate, normalized.totals?.gross ?? lineTotal, decimals);
+        result.payment = payment;
+
+        const parts: string[] = [];
+        if (payment.discountAmount !== null) {
+            parts.push(`${terms.discountPercent}% discount (${payment.discountAmount}) if paid ${payment.discountDeadline ? `by ${payment.discountDeadline}` : "early"}: pay ${payment.discountedAmount}`);
+        }
+        if (payment.netDueDate) parts.push(`net ${payment.amount} due ${payment.netDueDate}`);
+        const data = { ...payment, terms: terms.text };
+        result.auditTrail.push({ step: "payment", timestamp: this.timestamp(), details: parts.join("; "), data });
+    }
+
+    private vendorMemoryRef(vendor: string, attribute: VendorAttribute, confidence: number, key?: string): AuditMemoryRef {
+        const name = attribute === "skuMappings" ? `skuMappings['${skuKeyOf(key ?? "")}']` : attribute === "fieldLabels" ? `fieldLabels['${key ?? ""}']` : attribute;
+        return { collection: "vendor", key: vendor, attribute: name, confidence };
+    }
+
+    private propose(result: InvoiceRunResult, proposal: Omit<ProposedCorrection, 'proposalId'>): void {
+        result.proposedCorrections.push({ proposalId: `p${result.proposedCorrections.length + 1}`, ...proposal });
+    }
+}
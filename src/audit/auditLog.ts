@@ -0,0 +1,162 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getMemoryStore, MemoryStore } from '../memory/memoryStore';
+import { AuditData, AuditEntry, InvoiceRunResult } from '../types';
+
+/**
+ * Version of the agent that produced a record, read from package.json.
+ */
+export const AGENT_VERSION: string = (() => {
+    try {
+        return (JSON.parse(fs.readFileSync(path.resolve(__dirname, '../../package.json'), 'utf-8')) as { version: string }).version;
+    } catch {
+        return "unknown";
+    }
+})();
+
+/** The audit trail of one processed invoice, as persisted. */
+export interface AuditRecord {
+    runId: string;
+    /** Set when the agent runs for a tenant. */
+    tenantId?: string;
+    invoiceId: string;
+    vendor: string;
+    vendorId: string;
+    agentVersion: string;
+    processedAt: string;
+    requiresHumanReview: boolean;
+    entries: AuditEntry[];
+}
+
+/** One audit entry with the record it belongs to, as returned by queries. */
+export interface AuditRow extends AuditEntry {
+    runId: string;
+    tenantId?: string;
+    invoiceId: string;
+    vendor: string;
+    vendorId: string;
+    agentVersion: string;
+}
+
+export interface AuditQuery {
+    runId?: string;
+    invoiceId?: string;
+    /** Vendor ID or canonical name. */
+    vendor?: string;
+    step?: AuditEntry['step'];
+    patternId?: string;
+    /** ISO timestamp or date; entries at or after it. */
+    from?: string;
+    /** ISO timestamp or date (whole day included); entries at or before it. */
+    to?: string;
+}
+
+function upperBound(to: string): string {
+    return /^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to;
+}
+
+/**
+ * Persistent audit log in the `audit` collection, one record per processed invoice
+ * and run. Records are only ever added.
+ */
+export class AuditLog {
+    constructor(private readonly store: MemoryStore = getMemoryStore()) {}
+
+    /**
+     * Persists the trail of one result. Processing the same invoice twice in a run
+     * keeps both records.
+     */
+    record(runId: string, invoiceId: string, result: InvoiceRunResult, context: { agentVersion?: string; tenantId?: string } = {}): AuditRecord {
+        const record: AuditRecord = {
+            runId,
+            ...(context.tenantId ? { tenantId: context.tenantId } : {}),
+            invoiceId,
+            vendor: result.normalizedInvoice.vendor,
+            vendorId: result.normalizedInvoice.vendorId,
+            agentVersion: context.agentVersion ?? AGENT_VERSION,
+            processedAt: result.auditTrail[0]?.timestamp ?? new Date().toISOString(),
+            requiresHumanReview: result.requiresHumanReview,
+            entries: result.auditTrail
+        };
+        let key = `${runId}/${invoiceId}`;
+        for (let n = 2; this.store.get('audit', key); n++) key = `${runId}/${invoiceId}#${n}`;
+        this.store.put('audit', key, record);
+        return record;
+    }
+
+    /**
+     * Records, oldest first, optionally of one run.
+     */
+    records(runId?: string): AuditRecord[] {
+        return Object.values(this.store.getAll<AuditRecord>('audit'))
+            .filter(r => !runId || r.runId === runId)
+            .sort((a, b) => a.processedAt.localeCompare(b.processedAt));
+    }
+
+    /**
+     * Entries matching every given filter, oldest first.
+     */
+    query(filter: AuditQuery = {}): AuditRow[] {
+        const to = filter.to ? upperBound(filter.to) : undefined;
+        const rows: AuditRow[] = [];
+        for (const record of this.records(filter.runId)) {
+            if (filter.invoiceId && record.invoiceId !== filter.invoiceId) continue;
+            if (filter.vendor && record.vendorId !== filter.vendor && record.vendor !== filter.vendor) continue;
+            const { entries, processedAt, requiresHumanReview, ...context } = record;
+            for (const entry of entries) {
+                if (filter.step && entry.step !== filter.step) continue;
+                if (filter.patternId && entry.data?.patternId !== filter.patternId) continue;
+                if (filter.from && entry.timestamp < filter.from) continue;
+                if (to && entry.timestamp > to) continue;
+                rows.push({ ...context, ...entry });
+            }
+        }
+        return rows;
+    }
+
+    /**
+     * The auto-applied changes on an invoice and the memory behind each.
+     */
+    autoApplied(invoiceId: string): AuditRow[] {
+        return this.query({ invoiceId, step: "apply" });
+    }
+}
+
+// --- Export ---
+
+export const AUDIT_CSV_COLUMNS = ['runId', 'invoiceId', 'vendorId', 'vendor', 'agentVersion', 'timestamp', 'step', 'details', 'ruleId', 'patternId', 'field', 'oldValue', 'newValue', 'memory', 'data'];
+
+function csvCell(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function memoryRefOf(data: AuditData | undefined): string | undefined {
+    const memory = data?.memory;
+    if (!memory) return undefined;
+    return `${memory.collection}:${memory.key}${memory.attribute ? `.${memory.attribute}` : ''}@${memory.confidence}`;
+}
+
+/**
+ * CSV with a header row. Well-known payload fields get columns of their own;
+ * the full payload is in `data` as JSON.
+ */
+export function auditRowsToCsv(rows: AuditRow[]): string {
+    const lines = [AUDIT_CSV_COLUMNS.join(',')];
+    for (const row of rows) {
+        const { data } = row;
+        lines.push([
+            row.runId, row.invoiceId, row.vendorId, row.vendor, row.agentVersion, row.timestamp, row.step, row.details,
+            data?.ruleId, data?.patternId, data?.field, data?.oldValue, data?.newValue, memoryRefOf(data), data
+        ].map(csvCell).join(','));
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * One JSON object per line.
+ */
+export function auditRowsToJsonl(rows: AuditRow[]): string {
+    return rows.map(row => JSON.stringify(row) + '\n').join('');
+}
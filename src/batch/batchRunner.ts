@@ -0,0 +1,273 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { InvoiceAgent } from '../agent/invoiceAgent';
+import { AuditRecord } from '../audit/auditLog';
+import { ExtractedInvoice, InvoiceRunResult } from '../types';
+
+// --- Batch processing with ordered memory updates and checkpoints ---
+
+export interface BatchOptions {
+    /**
+     * Results handed to `onResult` and not yet settled, at most. This does not bound
+     * processing, which is sequential: it lets a slow `onResult`, such as posting to
+     * an ERP, overlap with processing the next invoices.
+     */
+    maxPendingOutputs: number;
+    simulateHumanFeedback: boolean;
+    /** File to record progress in; an existing one resumes the batch it belongs to. */
+    checkpoint?: string;
+    /** Invoices between checkpoint writes. Failed invoices are written at once. */
+    checkpointEvery: number;
+    /** Receives every result, in input order. */
+    onResult?: (result: InvoiceRunResult, invoice: ExtractedInvoice, index: number) => void | Promise<void>;
+    clock: () => Date;
+}
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+    maxPendingOutputs: 4,
+    simulateHumanFeedback: false,
+    checkpointEvery: 25,
+    clock: () => new Date()
+};
+
+export interface VendorBatchSummary {
+    vendor: string;
+    processed: number;
+    autoApproved: number;
+    review: number;
+    /** Share of the vendor's invoices that passed without review. */
+    automationRate: number;
+}
+
+/**
+ * An invoice the agent failed on (`process`), as opposed to one it rejected as
+ * invalid, or whose result `onResult` failed on (`output`).
+ */
+export interface BatchError {
+    stage: "process" | "output";
+    index: number;
+    invoiceId: string | null;
+    message: string;
+}
+
+export interface BatchSummary {
+    runId: string;
+    total: number;
+    /** Invoices with a result; failed ones are in `errors`. */
+    processed: number;
+    autoApproved: number;
+    review: number;
+    /** Rejected as invalid; also counted under `review`. */
+    rejected: number;
+    /** Exact or probable duplicates, of an earlier invoice in this batch or before it. */
+    duplicates: number;
+    automationRate: number;
+    /** Keyed by vendor ID. */
+    byVendor: Record<string, VendorBatchSummary>;
+    /** Auto-applied changes per correction pattern or rule, or per vendor attribute for recalled ones. */
+    patternsApplied: Record<string, number>;
+    errors: BatchError[];
+    startedAt: string;
+    finishedAt: string | null;
+}
+
+export interface BatchCheckpoint {
+    runId: string;
+    /** Identifies the input, so a checkpoint is never resumed against another batch. */
+    fingerprint: string;
+    total: number;
+    /** Invoices processed or failed, counted from the start of the input, as of `updatedAt`. */
+    completed: number;
+    summary: BatchSummary;
+    updatedAt: string;
+}
+
+/** What the summary needs of one result; an audit record has the same shape. */
+type Outcome = Pick<AuditRecord, 'vendor' | 'vendorId' | 'requiresHumanReview' | 'entries'>;
+
+function idOf(invoice: ExtractedInvoice): string | null {
+    const invoiceId = invoice !== null && typeof invoice === 'object' ? (invoice as Partial<ExtractedInvoice>).invoiceId : undefined;
+    return typeof invoiceId === 'string' ? invoiceId : null;
+}
+
+function ratio(part: number, whole: number): number {
+    return whole > 0 ? Number((part / whole).toFixed(3)) : 0;
+}
+
+function emptySummary(runId: string, total: number, startedAt: string): BatchSummary {
+    return { runId, total, processed: 0, autoApproved: 0, review: 0, rejected: 0, duplicates: 0, automationRate: 0, byVendor: {}, patternsApplied: {}, errors: [], startedAt, finishedAt: null };
+}
+
+function tally(summary: BatchSummary, outcome: Outcome): void {
+    summary.processed++;
+    if (outcome.requiresHumanReview) summary.review++;
+    else summary.autoApproved++;
+    summary.automationRate = ratio(summary.autoApproved, summary.processed);
+
+    const key = outcome.vendorId || outcome.vendor || "unknown";
+    const vendor = summary.byVendor[key] ?? { vendor: outcome.vendor, processed: 0, autoApproved: 0, review: 0, automationRate: 0 };
+    vendor.processed++;
+    if (outcome.requiresHumanReview) vendor.review++;
+    else vendor.autoApproved++;
+    vendor.automationRate = ratio(vendor.autoApproved, vendor.processed);
+    summary.byVendor[key] = vendor;
+
+    for (const entry of outcome.entries) {
+        if (entry.step === "validate") summary.rejected++;
+        if (entry.step === "duplicate_check" && entry.data?.classification !== undefined && entry.data.classification !== "unique") summary.duplicates++;
+        if (entry.step === "apply") {
+            const data = entry.data ?? {};
+            const pattern = data.patternId ?? data.ruleId ?? data.memory?.attribute ?? data.field ?? "unknown";
+            summary.patternsApplied[pattern] = (summary.patternsApplied[pattern] ?? 0) + 1;
+        }
+    }
+}
+
+/**
+ * Hash of the invoice IDs in input order.
+ */
+export function batchFingerprint(invoices: ExtractedInvoice[]): string {
+    const hash = crypto.createHash('sha256');
+    invoices.forEach(invoice => hash.update(`${idOf(invoice) ?? ''}\n`));
+    return hash.digest('hex');
+}
+
+export function readBatchCheckpoint(filePath: string): BatchCheckpoint | null {
+    if (!fs.existsSync(filePath)) return null;
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as BatchCheckpoint;
+}
+
+/**
+ * Writes to a temp file and renames it into place, so a crash never leaves half a checkpoint.
+ */
+function writeBatchCheckpoint(filePath: string, checkpoint: BatchCheckpoint): void {
+    const target = path.resolve(filePath);
+    const tmp = `${target}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(checkpoint, null, 2), 'utf-8');
+    fs.renameSync(tmp, target);
+}
+
+/**
+ * Processes large sets of invoices through one agent.
+ *
+ * Invoices are processed and commit to memory one at a time, in input order: of
+ * two copies of an invoice in a batch, the first is always the original. With a
+ * checkpoint file, a batch that stopped resumes after the last invoice that reached
+ * memory. Each invoice commits together with its audit record, so the invoices
+ * already processed are found in the audit log instead of running twice.
+ */
+export class BatchRunner {
+    readonly options: BatchOptions;
+
+    constructor(private readonly agent: InvoiceAgent, options: Partial<BatchOptions> = {}) {
+        this.options = { ...DEFAULT_BATCH_OPTIONS, ...options };
+        if (!Number.isInteger(this.options.maxPendingOutputs) || this.options.maxPendingOutputs < 1) {
+            throw new Error(`maxPendingOutputs must be a positive integer, got ${this.options.maxPendingOutputs}`);
+        }
+    }
+
+    async run(invoices: ExtractedInvoice[]): Promise<BatchSummary> {
+        const { checkpoint: checkpointFile, maxPendingOutputs, onResult } = this.options;
+        const fingerprint = batchFingerprint(invoices);
+        const resumed = checkpointFile ? this.resume(checkpointFile, invoices, fingerprint) : null;
+        const summary = resumed?.summary ?? emptySummary(this.agent.runId, invoices.length, this.timestamp());
+        let completed = resumed?.completed ?? 0;
+
+        const save = () => {
+            if (!checkpointFile) return;
+            writeBatchCheckpoint(checkpointFile, { runId: this.agent.runId, fingerprint, total: invoices.length, completed, summary, updatedAt: this.timestamp() });
+        };
+        const commit = async (invoice: ExtractedInvoice, index: number): Promise<InvoiceRunResult | null> => {
+            try {
+                const result = await this.agent.process(invoice, this.options.simulateHumanFeedback);
+                tally(summary, { ...result.normalizedInvoice, requiresHumanReview: result.requiresHumanReview, entries: result.auditTrail });
+                completed++;
+                if (completed % this.options.checkpointEvery === 0) save();
+                return result;
+            } catch (error) {
+                // Written before the next invoice commits, so resuming never runs it again
+                summary.errors.push({ stage: "process", index, invoiceId: idOf(invoice), message: (error as Error).message });
+                completed++;
+                save();
+                return null;
+            }
+        };
+
+        let commits: Promise<unknown> = Promise.resolve();
+        const inFlight = new Set<Promise<void>>();
+        for (let index = completed; index < invoices.length; index++) {
+            if (inFlight.size >= maxPendingOutputs) await Promise.race(inFlight);
+            const invoice = invoices[index];
+            const committed = commits.then(() => commit(invoice, index));
+            commits = committed;
+            const task: Promise<void> = committed
+                .then(result => result ? onResult?.(result, invoice, index) : undefined)
+                .catch(error => {
+                    summary.errors.push({ stage: "output", index, invoiceId: idOf(invoice), message: (error as Error).message });
+                })
+                .finally(() => inFlight.delete(task));
+            inFlight.add(task);
+        }
+        await Promise.all(inFlight);
+
+        summary.finishedAt = this.timestamp();
+        // A finished batch has nothing to resume
+        if (checkpointFile) fs.rmSync(checkpointFile, { force: true });
+        return summary;
+    }
+
+    /**
+     * Where this batch stopped: walking the input in order, the first invoice that
+     * neither failed nor has an audit record in the run. Records are matched to
+     * invoices by ID, one record per copy, so neither repeated IDs nor records with
+     * equal timestamps shift the position. The summary is rebuilt from the matched
+     * records and the failures in the checkpoint.
+     */
+    private resume(checkpointFile: string, invoices: ExtractedInvoice[], fingerprint: string): { summary: BatchSummary; completed: number } | null {
+        const checkpoint = readBatchCheckpoint(checkpointFile);
+        if (!checkpoint) return null;
+        if (checkpoint.fingerprint !== fingerprint) throw new Error(`Checkpoint ${checkpointFile} belongs to another batch`);
+        if (checkpoint.runId !== this.agent.runId) throw new Error(`Checkpoint ${checkpointFile} belongs to run ${checkpoint.runId}; resume with that runId`);
+
+        const records = new Map<string, AuditRecord[]>();
+        for (const record of this.agent.auditLog.records(checkpoint.runId)) {
+            // Invoices without an ID are recorded as REJECTED-<timestamp>
+            const id = record.invoiceId.startsWith("REJECTED-") ? "" : record.invoiceId;
+            const matching = records.get(id) ?? [];
+            matching.push(record);
+            records.set(id, matching);
+        }
+        const failed = new Set(checkpoint.summary.errors.filter(e => e.stage === "process").map(e => e.index));
+        const summary = emptySummary(checkpoint.runId, invoices.length, checkpoint.summary.startedAt);
+        let completed = 0;
+        for (; completed < invoices.length; completed++) {
+            if (failed.has(completed)) continue;
+            const record = records.get(idOf(invoices[completed])?.trim() ?? "")?.shift();
+            if (!record) break;
+            tally(summary, record);
+        }
+        summary.errors = checkpoint.summary.errors.filter(e => e.index < completed);
+        return { summary, completed };
+    }
+
+    private timestamp(): string {
+        return this.options.clock().toISOString();
+    }
+}
+
+/**
+ * Readable lines for a summary, e.g. for a CLI.
+ */
+export function formatBatchSummary(summary: BatchSummary): string[] {
+    const lines = [
+        `${summary.processed} of ${summary.total} invoices processed: ${summary.autoApproved} auto-approved, ${summary.review} for review (${summary.rejected} invalid, ${summary.duplicates} duplicates), automation rate ${(summary.automationRate * 100).toFixed(1)}%`
+    ];
+    for (const [vendorId, vendor] of Object.entries(summary.byVendor).sort(([a], [b]) => a.localeCompare(b))) {
+        lines.push(`  ${vendor.vendor || vendorId}: ${vendor.autoApproved}/${vendor.processed} auto-approved (${(vendor.automationRate * 100).toFixed(1)}%)`);
+    }
+    const patterns = Object.entries(summary.patternsApplied).sort(([a, x], [b, y]) => y - x || a.localeCompare(b));
+    if (patterns.length > 0) lines.push(`Applied: ${patterns.map(([pattern, count]) => `${pattern} ×${count}`).join(', ')}`);
+    for (const error of summary.errors) lines.push(`Error at #${error.index} (${error.invoiceId ?? 'no ID'}${error.stage === "output" ? ', output' : ''}): ${error.message}`);
+    return lines;
+}
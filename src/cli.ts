@@ -0,0 +1,479 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { InvoiceAgent } from './agent/invoiceAgent';
+import { AuditQuery, auditRowsToCsv, auditRowsToJsonl } from './audit/auditLog';
+import { BatchRunner, formatBatchSummary, readBatchCheckpoint } from './batch/batchRunner';
+import { loadDeliveryNotes, loadExchangeRates, loadHumanCorrections, loadPurchaseOrders, RejectedDocument } from './dataLoaders';
+import { applyHumanCorrections, resetAllMemories } from './demoRunner';
+import { JsonFileMemoryStore } from './memory/jsonFileStore';
+import { exportMemoryBundle, formatImportSummary, ImportMode, importMemoryBundle, IMPORT_MODES, parseMemoryBundle } from './memory/memoryBundle';
+import { explainMemory, journaled, rollbackMemory, RollbackTarget, withMemorySource } from './memory/memoryJournal';
+import { MemoryCollection, MemoryStore, MEMORY_COLLECTIONS } from './memory/memoryStore';
+import { LayeredMemoryStore } from './memory/layeredStore';
+import { SqliteMemoryStore } from './memory/sqliteStore';
+import { loadTenants, openTenantStore, TenantConfig } from './tenants/tenantRegistry';
+import { ReviewDecision, ReviewItem } from './review/reviewQueue';
+import { AuditEntry, ExtractedInvoice } from './types';
+import { formatIssues } from './validation/schema';
+import { loadVendors } from './vendors/vendorRegistry';
+
+const USAGE = `Usage: flowbit-agent <command> [options]
+
+Commands:
+  process <file|dir>               Process invoices (JSON array, JSON object or NDJSON)
+      --format json|ndjson           Output format (default: json)
+      --simulate-feedback            Learn as if every review was approved
+      --review-above <amount>        Always review invoices of at least this gross amount
+      --checkpoint <file>            Record progress; rerun with the same file to resume
+  replay-corrections <file>        Learn from a human corrections file
+  memory list <type>               List keys of one memory type
+  memory show <type> <key>         Print one entry
+  memory forget <type> <key>       Delete one entry
+  memory export [type] [--out f]   Write a memory bundle (vendor, correction, resolution, duplicate,
+      --source <name>                vendorIdentity and candidate memory when no type given)
+  memory import <file> [type]      Load a memory bundle
+      --mode <mode>                  replace, merge-max-confidence (default) or merge-sum-counts
+      --dry-run                      Only report what would change
+  memory history <type> <key>      Show how an entry reached its current state
+  memory rollback                  Restore memory as it was at a point in time
+      --to <timestamp>               ... at this time
+      --correction <id>              ... just before this correction was applied
+      --dry-run                      Only report what would change
+  vendors list                     List registered vendors
+  vendors alias <vendorId> <name>  Confirm a spelling; merges it if it was a vendor of its own
+  vendors merge <fromId> <intoId>  Merge one vendor and its memory into another
+  audit                            Print audit log entries
+      --invoice <id>                 ... of one invoice
+      --vendor <name>                ... of one vendor (ID or any known spelling)
+      --step <step>                  ... of one step, e.g. apply or po_match
+      --pattern <patternId>          ... that concern one correction pattern
+      --run <runId>                  ... of one processing run
+      --from <time> --to <time>      ... within a date range
+      --format jsonl|csv             Output format (default: jsonl)
+  review                           Approve, reject or edit pending results interactively
+  review list                      List pending review items
+  reset --yes                      Delete all learned memory
+
+Options:
+  --store json|sqlite              Memory backend (default: json, or $MEMORY_STORE)
+  --memory <path>                  JSON directory or SQLite file (default: working directory);
+                                   with --tenant, the directory holding tenants/
+  --tenant <id>                    Use this tenant's own memory
+  --tenants <file>                 Tenant settings (per-tenant thresholds, decision policy and
+                                   confidence model)
+  --baseline <path>                Shared memory (JSON directory or .sqlite file) the tenant reads
+                                   but never changes
+  --vendors <file>                 Vendor master data with aliases, VAT IDs and IBANs
+  --purchase-orders <file>         Purchase orders to match against
+  --delivery-notes <file>          Delivery notes for three-way matching
+  --rates <file>                   Exchange rates by date ({date, base, currency, rate})
+  --base-currency <code>           Convert amounts into this currency for the decision
+
+Memory types: ${MEMORY_COLLECTIONS.join(', ')}`;
+
+interface CliOptions {
+    positional: string[];
+    flags: Record<string, string | true>;
+}
+
+const VALUE_FLAGS = new Set(['format', 'store', 'memory', 'vendors', 'purchase-orders', 'delivery-notes', 'out', 'source', 'mode', 'to', 'correction', 'invoice', 'vendor', 'step', 'pattern', 'run', 'from', 'tenant', 'tenants', 'baseline', 'review-above', 'rates', 'base-currency', 'checkpoint']);
+
+function parseArgs(argv: string[]): CliOptions {
+    const positional: string[] = [];
+    const flags: Record<string, string | true> = {};
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) {
+            positional.push(arg);
+            continue;
+        }
+        const [name, inline] = arg.slice(2).split('=', 2);
+        if (!VALUE_FLAGS.has(name)) {
+            flags[name] = true;
+        } else if (inline !== undefined) {
+            flags[name] = inline;
+        } else if (i + 1 < argv.length) {
+            flags[name] = argv[++i];
+        } else {
+            throw new Error(`Option --${name} needs a value`);
+        }
+    }
+    return { positional, flags };
+}
+
+function stringFlag(options: CliOptions, name: string): string | undefined {
+    const value = options.flags[name];
+    return typeof value === 'string' ? value : undefined;
+}
+
+function tenantConfig(options: CliOptions): TenantConfig | null {
+    const tenantId = stringFlag(options, 'tenant');
+    if (!tenantId) return null;
+    const file = stringFlag(options, 'tenants');
+    if (!file) return { tenantId };
+    const config = loadTenants(file).find(t => t.tenantId === tenantId);
+    if (!config) throw new Error(`Tenant '${tenantId}' is not listed in ${file}`);
+    return config;
+}
+
+async function openStore(options: CliOptions): Promise<MemoryStore> {
+    const kind = stringFlag(options, 'store') ?? process.env.MEMORY_STORE ?? 'json';
+    const location = stringFlag(options, 'memory');
+    const tenant = tenantConfig(options);
+    if (tenant) {
+        if (kind !== 'json' && kind !== 'sqlite') throw new Error(`Unknown store '${kind}', expected json or sqlite`);
+        const own = await openTenantStore(tenant.tenantId, { kind, root: location });
+        const baseline = stringFlag(options, 'baseline');
+        if (!baseline || tenant.useBaseline === false) return journaled(own);
+        const shared = baseline.endsWith('.sqlite') ? await SqliteMemoryStore.open(path.resolve(baseline)) : new JsonFileMemoryStore(path.resolve(baseline));
+        return journaled(new LayeredMemoryStore(own, shared));
+    }
+    if (stringFlag(options, 'baseline')) throw new Error('--baseline needs --tenant');
+    if (kind === 'sqlite') {
+        return journaled(await SqliteMemoryStore.open(location ? path.resolve(location) : undefined));
+    }
+    if (kind !== 'json') throw new Error(`Unknown store '${kind}', expected json or sqlite`);
+    return journaled(new JsonFileMemoryStore(location ? path.resolve(location) : undefined));
+}
+
+function reportRejected(rejected: RejectedDocument[]): void {
+    for (const doc of rejected) {
+        console.error(`Skipped ${doc.source} #${doc.index}: ${formatIssues(doc.issues).join('; ')}`);
+    }
+}
+
+function createAgent(store: MemoryStore, options: CliOptions, runId?: string): InvoiceAgent {
+    const vendorFile = stringFlag(options, 'vendors');
+    const poFile = stringFlag(options, 'purchase-orders');
+    const dnFile = stringFlag(options, 'delivery-notes');
+    const ratesFile = stringFlag(options, 'rates');
+    const rejected: RejectedDocument[] = [];
+    const tenant = tenantConfig(options);
+    const baseCurrency = stringFlag(options, 'base-currency')?.toUpperCase() ?? tenant?.baseCurrency;
+    const reviewAbove = stringFlag(options, 'review-above');
+    if (reviewAbove !== undefined && !Number.isFinite(Number(reviewAbove))) throw new Error(`--review-above expects an amount, got '${reviewAbove}'`);
+    const agent = new InvoiceAgent({
+        memoryStore: store,
+        runId,
+        ...(tenant ? { tenantId: tenant.tenantId, thresholds: tenant.thresholds, confidence: tenant.confidence } : {}),
+        decisionPolicy: { ...tenant?.decisionPolicy, ...(reviewAbove !== undefined ? { reviewAmountAbove: Number(reviewAbove) } : {}) },
+        vendors: vendorFile ? loadVendors(vendorFile) : [],
+        purchaseOrders: poFile ? loadPurchaseOrders(poFile, rejected) : [],
+        deliveryNotes: dnFile ? loadDeliveryNotes(dnFile, rejected) : [],
+        exchangeRates: ratesFile ? loadExchangeRates(ratesFile, rejected) : [],
+        baseCurrency
+    });
+    reportRejected(rejected);
+    return agent;
+}
+
+function memoryType(value: string | undefined): MemoryCollection {
+    if (!value || !MEMORY_COLLECTIONS.includes(value as MemoryCollection)) {
+        throw new Error(`Expected a memory type: ${MEMORY_COLLECTIONS.join(', ')}`);
+    }
+    return value as MemoryCollection;
+}
+
+function required(value: string | undefined, what: string): string {
+    if (!value) throw new Error(`Missing ${what}`);
+    return value;
+}
+
+// --- Input ---
+
+/**
+ * Reads invoices from a JSON array, a single JSON object or NDJSON (one invoice per line).
+ */
+function readInvoiceFile(filePath: string): ExtractedInvoice[] {
+    const text = fs.readFileSync(filePath, 'utf-8').trim();
+    if (text.length === 0) return [];
+    if (text.startsWith('[')) return JSON.parse(text) as ExtractedInvoice[];
+    try {
+        return [JSON.parse(text) as ExtractedInvoice];
+    } catch {
+        return text.split(/\r?\n/)
+            .filter(line => line.trim().length > 0)
+            .map(line => JSON.parse(line) as ExtractedInvoice);
+    }
+}
+
+function readInvoices(target: string): ExtractedInvoice[] {
+    if (!fs.statSync(target).isDirectory()) return readInvoiceFile(target);
+    return fs.readdirSync(target)
+        .filter(name => /\.(json|ndjson|jsonl)$/i.test(name))
+        .sort()
+        .flatMap(name => readInvoiceFile(path.join(target, name)));
+}
+
+// --- Commands ---
+
+async function processCommand(store: MemoryStore, options: CliOptions): Promise<void> {
+    const target = required(options.positional[1], 'file or directory to process');
+    const format = stringFlag(options, 'format') ?? 'json';
+    if (format !== 'json' && format !== 'ndjson') throw new Error(`Unknown format '${format}', expected json or ndjson`);
+
+    const checkpoint = stringFlag(options, 'checkpoint');
+    // A resumed batch continues the run it started
+    const agent = createAgent(store, options, checkpoint ? readBatchCheckpoint(checkpoint)?.runId : undefined);
+    const invoices = readInvoices(target);
+    const outputs: object[] = [];
+    const summary = await new BatchRunner(agent, {
+        checkpoint,
+        simulateHumanFeedback: options.flags['simulate-feedback'] === true,
+        onResult: (result, invoice) => {
+            const output = { invoiceId: invoice.invoiceId, ...result };
+            if (format === 'ndjson') process.stdout.write(JSON.stringify(output) + '\n');
+            else outputs.push(output);
+        }
+    }).run(invoices);
+    if (format === 'json') process.stdout.write(JSON.stringify(outputs, null, 2) + '\n');
+    const pending = agent.reviewQueue.pending().length;
+    console.error(`Processed ${summary.processed} invoices; ${summary.rejected} rejected as invalid; ${pending} pending review.`);
+    for (const line of formatBatchSummary(summary)) console.error(line);
+    const failed = summary.errors.filter(e => e.stage === "process").length;
+    if (failed > 0) throw new Error(`${failed} invoice(s) failed; see the errors above`);
+}
+
+function replayCommand(store: MemoryStore, options: CliOptions): void {
+    const file = required(options.positional[1], 'corrections file');
+    const rejected: RejectedDocument[] = [];
+    const corrections = loadHumanCorrections(file, rejected);
+    reportRejected(rejected);
+    applyHumanCorrections(createAgent(store, options), corrections);
+}
+
+function memoryCommand(store: MemoryStore, options: CliOptions): void {
+    const [, action, ...args] = options.positional;
+    switch (action) {
+        case 'list': {
+            const type = memoryType(args[0]);
+            for (const key of Object.keys(store.getAll(type)).sort()) console.log(key);
+            return;
+        }
+        case 'show': {
+            const type = memoryType(args[0]);
+            const key = required(args[1], 'memory key');
+            const entry = store.get(type, key);
+            if (entry === null) throw new Error(`No ${type} memory '${key}'`);
+            console.log(JSON.stringify(entry, null, 2));
+            return;
+        }
+        case 'forget': {
+            const type = memoryType(args[0]);
+            const key = required(args[1], 'memory key');
+            if (!store.delete(type, key)) throw new Error(`No ${type} memory '${key}'`);
+            console.log(`Forgot ${type} memory '${key}'`);
+            return;
+        }
+        case 'export': {
+            const bundle = exportMemoryBundle(store, {
+                collections: args[0] ? [memoryType(args[0])] : undefined,
+                source: stringFlag(options, 'source')
+            });
+            const json = JSON.stringify(bundle, null, 2) + '\n';
+            const out = stringFlag(options, 'out');
+            if (out) fs.writeFileSync(out, json);
+            else process.stdout.write(json);
+            return;
+        }
+        case 'import': {
+            const file = required(args[0], 'file to import');
+            const mode = stringFlag(options, 'mode') ?? 'merge-max-confidence';
+            if (!(IMPORT_MODES as string[]).includes(mode)) throw new Error(`Unknown import mode '${mode}', expected ${IMPORT_MODES.join(', ')}`);
+            const bundle = parseMemoryBundle(JSON.parse(fs.readFileSync(file, 'utf-8')));
+            const dryRun = options.flags['dry-run'] === true;
+            const report = withMemorySource(store, { type: "import", id: bundle.source ?? file }, () => importMemoryBundle(bundle, store, {
+                mode: mode as ImportMode,
+                dryRun,
+                collections: args[1] ? [memoryType(args[1])] : undefined
+            }));
+            for (const change of report.changes) console.log(`${change.change}\t${change.collection}\t${change.key}`);
+            const origin = bundle.source ? ` (from ${bundle.source}, exported ${bundle.exportedAt})` : '';
+            console.log(`${dryRun ? 'Dry run of' : 'Imported'} ${file}${origin} with ${mode}:`);
+            for (const line of formatImportSummary(report)) console.log(`  ${line}`);
+            return;
+        }
+        case 'history': {
+            const type = memoryType(args[0]);
+            const key = required(args[1], 'memory key');
+            const lines = explainMemory(store, type, key);
+            if (lines.length === 0) throw new Error(`No history for ${type} memory '${key}'`);
+            for (const line of lines) console.log(line);
+            return;
+        }
+        case 'rollback': {
+            const timestamp = stringFlag(options, 'to');
+            const correctionId = stringFlag(options, 'correction');
+            if (!timestamp === !correctionId) throw new Error('rollback needs either --to <timestamp> or --correction <id>');
+            const target: RollbackTarget = timestamp ? { timestamp } : { correctionId: correctionId! };
+            const dryRun = options.flags['dry-run'] === true;
+            const report = rollbackMemory(store, target, { dryRun });
+            for (const change of report.changes) console.log(`${change.change}\t${change.collection}\t${change.key}`);
+            console.log(`${dryRun ? 'Dry run: would roll back' : 'Rolled back'} ${report.changes.length} entries to ${report.target}`);
+            return;
+        }
+        default:
+            throw new Error(`Unknown memory action '${action ?? ''}', expected list, show, forget, export, import, history or rollback`);
+    }
+}
+
+function vendorsCommand(store: MemoryStore, options: CliOptions): void {
+    const [, action, ...args] = options.positional;
+    const registry = createAgent(store, options).vendors;
+    switch (action) {
+        case 'list': {
+            for (const vendor of registry.list()) {
+                console.log(`${vendor.vendorId}\t${vendor.name}\t${vendor.aliases.join(', ')}`);
+            }
+            return;
+        }
+        case 'alias': {
+            const vendorId = required(args[0], 'vendor ID');
+            const alias = required(args.slice(1).join(' '), 'alias');
+            const vendor = registry.confirmAlias(vendorId, alias);
+            console.log(`'${alias}' now resolves to ${vendor.vendorId}`);
+            return;
+        }
+        case 'merge': {
+            const fromId = required(args[0], 'vendor ID to merge');
+            const intoId = required(args[1], 'vendor ID to merge into');
+            registry.merge(fromId, intoId);
+            console.log(`Merged ${fromId} into ${intoId}`);
+            return;
+        }
+        default:
+            throw new Error(`Unknown vendors action '${action ?? ''}', expected list, alias or merge`);
+    }
+}
+
+function auditCommand(store: MemoryStore, options: CliOptions): void {
+    const format = stringFlag(options, 'format') ?? 'jsonl';
+    if (format !== 'jsonl' && format !== 'csv') throw new Error(`Unknown format '${format}', expected jsonl or csv`);
+    const agent = createAgent(store, options);
+    const vendor = stringFlag(options, 'vendor');
+    const query: AuditQuery = {
+        runId: stringFlag(options, 'run'),
+        invoiceId: stringFlag(options, 'invoice'),
+        vendor: vendor === undefined ? undefined : agent.vendors.resolve(vendor)?.vendorId ?? vendor,
+        step: stringFlag(options, 'step') as AuditEntry['step'] | undefined,
+        patternId: stringFlag(options, 'pattern'),
+        from: stringFlag(options, 'from'),
+        to: stringFlag(options, 'to')
+    };
+    const rows = agent.auditLog.query(query);
+    process.stdout.write(format === 'csv' ? auditRowsToCsv(rows) : auditRowsToJsonl(rows));
+}
+
+function printItem(item: ReviewItem): void {
+    console.log(`\n=== ${item.reviewId} (${item.vendor}) ===`);
+    console.log(item.reasoning);
+}
+
+async function reviewCommand(store: MemoryStore, options: CliOptions): Promise<void> {
+    const queue = createAgent(store, options).reviewQueue;
+    if (options.positional[1] === 'list') {
+        for (const item of queue.pending()) {
+            const open = item.proposals.filter(p => p.status === "pending").length;
+            console.log(`${item.reviewId}\t${item.vendor}\t${open} open proposals\t${item.reasoning}`);
+        }
+        return;
+    }
+
+    // Read through the line iterator rather than rl.question so piped answers are buffered
+    const rl = readline.createInterface({ input: process.stdin });
+    const lines = rl[Symbol.asyncIterator]();
+    const ask = async (question: string): Promise<string> => {
+        process.stdout.write(question);
+        const next = await lines.next();
+        return next.done ? 'q' : String(next.value).trim();
+    };
+    try {
+        for (const item of queue.pending()) {
+            printItem(item);
+            if (item.proposals.length === 0) {
+                const answer = (await ask('No proposals. [d]ismiss, [s]kip, [q]uit: ')).toLowerCase();
+                if (answer === 'q') return;
+                if (answer === 'd') queue.dismiss(item.reviewId);
+                continue;
+            }
+            for (const proposal of item.proposals.filter(p => p.status === "pending")) {
+                console.log(`  ${proposal.proposalId}: ${proposal.description} (confidence ${proposal.confidence})`);
+                const answer = await ask('  [a]pprove, [r]eject, [e]dit <value>, [s]kip, [q]uit: ');
+                const [command, ...rest] = answer.split(' ');
+                let decision: ReviewDecision | null = null;
+                switch (command.toLowerCase()) {
+                    case 'a': decision = { action: "approve" }; break;
+                    case 'r': decision = { action: "reject" }; break;
+                    case 'e': decision = { action: "edit", value: parseEditedValue(rest.join(' ')) }; break;
+                    case 'q': return;
+                }
+                if (decision) queue.decide(item.reviewId, proposal.proposalId, decision, process.env.USER);
+            }
+        }
+        console.log('\nNo more pending items.');
+    } finally {
+        rl.close();
+    }
+}
+
+/** Edited values are read as JSON when possible, so `90` stays a number. */
+function parseEditedValue(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+function resetCommand(store: MemoryStore, options: CliOptions): void {
+    if (options.flags.yes !== true) {
+        throw new Error('reset deletes all learned memory; pass --yes to confirm');
+    }
+    resetAllMemories(store);
+}
+
+// --- Main ---
+export async function main(argv: string[] = process.argv.slice(2)): Promise<number> {
+    let options: CliOptions;
+    try {
+        options = parseArgs(argv);
+    } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        return 2;
+    }
+    const command = options.positional[0];
+    if (!command || options.flags.help) {
+        console.log(USAGE);
+        return command || options.flags.help ? 0 : 2;
+    }
+
+    let store: MemoryStore | null = null;
+    try {
+        store = await openStore(options);
+        const manual = { type: "manual" as const, id: `cli ${command}` };
+        switch (command) {
+            case 'process': await processCommand(store, options); break;
+            case 'replay-corrections': replayCommand(store, options); break;
+            case 'memory': withMemorySource(store, manual, () => memoryCommand(store!, options)); break;
+            case 'vendors': withMemorySource(store, manual, () => vendorsCommand(store!, options)); break;
+            case 'audit': auditCommand(store, options); break;
+            case 'review': await reviewCommand(store, options); break;
+            case 'reset': withMemorySource(store, manual, () => resetCommand(store!, options)); break;
+            default:
+                console.error(`Unknown command '${command}'\n\n${USAGE}`);
+                return 2;
+        }
+        return 0;
+    } catch (error) {
+        console.error(`Error: ${(error as Error).message}`);
+        return 1;
+    } finally {
+        store?.close();
+    }
+}
+
+if (require.main === module) {
+    main().then(code => { process.exitCode = code; });
+}
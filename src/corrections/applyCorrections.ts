@@ -0,0 +1,53 @@
+import { NormalizedInvoice, ProposedCorrection } from '../types';
+
+const PATH_SEGMENT = /([^.[\]]+)|\[(\d+)\]/g;
+
+function parsePath(fieldPath: string): Array<string | number> {
+    const segments: Array<string | number> = [];
+    for (const match of fieldPath.matchAll(PATH_SEGMENT)) {
+        segments.push(match[2] !== undefined ? Number(match[2]) : match[1]);
+    }
+    if (segments.length === 0) throw new Error(`Invalid field path '${fieldPath}'`);
+    return segments;
+}
+
+/**
+ * Reads a value by field path such as `lineItems[0].sku`. Missing values read as null.
+ */
+export function getFieldValue(target: object, fieldPath: string): unknown {
+    let current: unknown = target;
+    for (const segment of parsePath(fieldPath)) {
+        if (current === null || typeof current !== 'object') return null;
+        current = (current as Record<string | number, unknown>)[segment];
+    }
+    return current ?? null;
+}
+
+/**
+ * Writes a value by field path, mutating `target`. Intermediate containers must exist.
+ */
+export function setFieldValue(target: object, fieldPath: string, value: unknown): void {
+    const segments = parsePath(fieldPath);
+    let current = target as Record<string | number, unknown>;
+    for (const segment of segments.slice(0, -1)) {
+        const next = current[segment];
+        if (next === null || typeof next !== 'object') {
+            throw new Error(`Field path '${fieldPath}' does not exist`);
+        }
+        current = next as Record<string | number, unknown>;
+    }
+    current[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Returns a copy of the invoice with the given proposals applied, in proposalId order.
+ * The input invoice is not modified, so the same inputs always give the same output.
+ */
+export function applyCorrections(invoice: NormalizedInvoice, proposals: ProposedCorrection[]): NormalizedInvoice {
+    const corrected = structuredClone(invoice);
+    const ordered = [...proposals].sort((a, b) => a.proposalId.localeCompare(b.proposalId, undefined, { numeric: true }));
+    for (const proposal of ordered) {
+        setFieldValue(corrected, proposal.field, proposal.newValue);
+    }
+    return corrected;
+}
@@ -0,0 +1,133 @@
+import { ConvertedAmount } from './exchangeRates';
+
+// --- Currency recognition in rawText ---
+
+/** ISO 4217 codes recognized in rawText. */
+export const CURRENCY_CODES = [
+    "EUR", "USD", "GBP", "CHF", "JPY", "CNY", "CAD", "AUD", "NZD", "SEK", "NOK", "DKK", "PLN",
+    "CZK", "HUF", "RON", "BGN", "TRY", "INR", "SGD", "HKD", "ZAR", "MXN", "BRL", "KRW"
+];
+
+/**
+ * Symbols and abbreviations with the currency they stand for. A bare "$" is read
+ * as USD; other dollars need their prefix, e.g. "CA$".
+ */
+export const CURRENCY_SYMBOLS: Record<string, string> = {
+    "€": "EUR", "£": "GBP", "¥": "JPY", "₹": "INR", "₩": "KRW",
+    "US$": "USD", "CA$": "CAD", "C$": "CAD", "A$": "AUD", "NZ$": "NZD", "HK$": "HKD", "S$": "SGD", "R$": "BRL", "$": "USD",
+    "SFr.": "CHF", "Fr.": "CHF", "zł": "PLN", "Kč": "CZK"
+};
+
+/** One place rawText names a currency. */
+export interface CurrencyMention {
+    code: string;
+    /** The code or symbol as printed. */
+    text: string;
+    source: "code" | "symbol";
+    /** 1-based line of rawText. */
+    line: number;
+    /** Printed directly before or after an amount, e.g. "900.00 EUR" or "€900". */
+    nextToAmount: boolean;
+    /** On a line stating the document total. */
+    onTotalLine: boolean;
+}
+
+export interface CurrencyDetection extends CurrencyMention {
+    /** Other currencies the text mentions. */
+    others: string[];
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Longest first, so "US$" is not read as "$"; letters must not continue a word
+const MENTION = new RegExp(
+    [...Object.keys(CURRENCY_SYMBOLS), ...CURRENCY_CODES]
+        .sort((a, b) => b.length - a.length)
+        .map(token => /^[A-Za-z]/.test(token) ? `(?<![A-Za-z])${escapeRegExp(token)}(?![A-Za-z])` : escapeRegExp(token))
+        .join('|'),
+    'g'
+);
+const AMOUNT_BEFORE = /\d[\d.,' ]*\s*$/;
+const AMOUNT_AFTER = /^\s*-?\d/;
+const TOTAL_LINE = /\b(?:total|gesamt\w*|summe|amount due|rechnungsbetrag|brutto)\b/i;
+
+/**
+ * Every currency code or symbol in rawText, in reading order. Symbols count only
+ * next to an amount, since "Fr." or "$" mean little on their own.
+ */
+export function findCurrencyMentions(rawText: string): CurrencyMention[] {
+    const mentions: CurrencyMention[] = [];
+    rawText.split(/\r?\n/).forEach((text, i) => {
+        for (const match of text.matchAll(MENTION)) {
+            const token = match[0];
+            const source = CURRENCY_CODES.includes(token) ? "code" : "symbol";
+            const nextToAmount = AMOUNT_BEFORE.test(text.slice(0, match.index)) || AMOUNT_AFTER.test(text.slice(match.index! + token.length));
+            if (source === "symbol" && !nextToAmount) continue;
+            mentions.push({ code: source === "code" ? token : CURRENCY_SYMBOLS[token], text: token, source, line: i + 1, nextToAmount, onTotalLine: TOTAL_LINE.test(text) });
+        }
+    });
+    return mentions;
+}
+
+/**
+ * The currency rawText states, optionally limited to `codes`. Mentions next to an
+ * amount outweigh bare ones and the total line outweighs other lines, so "Total:
+ * 1.200,00 CHF" wins over an "EUR" in the bank details. Ties go to the first mention.
+ */
+export function detectCurrency(rawText: string, codes?: string[]): CurrencyDetection | null {
+    const mentions = findCurrencyMentions(rawText).filter(m => !codes || codes.includes(m.code));
+    if (mentions.length === 0) return null;
+    const weight = (m: CurrencyMention) => (m.nextToAmount ? 2 : 1) + (m.nextToAmount && m.onTotalLine ? 1 : 0);
+    const scores = new Map<string, number>();
+    for (const mention of mentions) scores.set(mention.code, (scores.get(mention.code) ?? 0) + weight(mention));
+    const best = Math.max(...scores.values());
+    const winner = mentions.find(m => scores.get(m.code) === best)!;
+    // The strongest mention of the winning currency is the one to point at
+    const shown = mentions.filter(m => m.code === winner.code).reduce((a, b) => weight(b) > weight(a) ? b : a);
+    return { ...shown, others: [...scores.keys()].filter(code => code !== winner.code) };
+}
+
+// --- Currency consistency ---
+
+/**
+ * - `raw_text`: the text states amounts in another currency than the extracted one
+ * - `purchase_order`: the matched PO is priced in another currency
+ */
+export interface CurrencyMismatch {
+    kind: "raw_text" | "purchase_order";
+    /** Currency of the invoice. */
+    currency: string;
+    /** Currency the text or the PO states. */
+    other: string;
+    /** PO number, for `purchase_order`. */
+    ref?: string;
+    details: string;
+}
+
+export interface CurrencyCheck {
+    /** Invoice currency after normalization. */
+    currency: string | null;
+    /** Currency rawText states, if any. */
+    stated: CurrencyDetection | null;
+    mismatches: CurrencyMismatch[];
+    /** Gross amount in the base currency, when one is configured and a rate is known. */
+    base: ConvertedAmount | null;
+}
+
+/**
+ * Conflicts between the invoice currency, the currency its text states next to
+ * amounts and the currency of its purchase order.
+ */
+export function findCurrencyMismatches(currency: string | null, stated: CurrencyDetection | null, po: { poNumber: string; currency?: string } | null): CurrencyMismatch[] {
+    if (!currency) return [];
+    const mismatches: CurrencyMismatch[] = [];
+    if (stated?.nextToAmount && stated.code !== currency) {
+        mismatches.push({ kind: "raw_text", currency, other: stated.code, details: `Invoice currency ${currency}, but the text states amounts in ${stated.code} ('${stated.text}', line ${stated.line})` });
+    }
+    if (po?.currency && po.currency !== currency) {
+        mismatches.push({ kind: "purchase_order", currency, other: po.currency, ref: po.poNumber, details: `Invoice currency ${currency} differs from ${po.poNumber} in ${po.currency}` });
+    }
+    return mismatches;
+}
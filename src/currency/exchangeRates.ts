@@ -0,0 +1,108 @@
+import { ExchangeRate } from '../types';
+import { currencyDecimals, fromMinorUnits, toMinorUnits } from '../tax/money';
+
+// --- Exchange rates by date, from a local table ---
+
+export interface ExchangeRateOptions {
+    /** Oldest rate, in days before the requested date, that may still be used. */
+    maxAgeDays: number;
+}
+
+export const DEFAULT_EXCHANGE_RATE_OPTIONS: ExchangeRateOptions = {
+    maxAgeDays: 7
+};
+
+/** How many units of `to` one unit of `from` buys. */
+export interface ConversionRate {
+    from: string;
+    to: string;
+    rate: number;
+    /** Date of the rate used; for a cross rate, the older of its two legs. */
+    date: string;
+}
+
+export interface ConvertedAmount {
+    amount: number;
+    currency: string;
+    original: number;
+    originalCurrency: string;
+    rate: number;
+    rateDate: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Exchange rates as published per date, e.g. `{ "date": "2025-01-15", "base": "EUR",
+ * "currency": "USD", "rate": 1.03 }` for 1 EUR = 1.03 USD. A conversion uses the
+ * latest rate on or before the requested date, inverts a rate quoted the other way
+ * round and crosses two rates through a shared base.
+ */
+export class ExchangeRateTable {
+    private readonly byPair = new Map<string, ExchangeRate[]>();
+    private readonly options: ExchangeRateOptions;
+
+    constructor(rates: ExchangeRate[], options: Partial<ExchangeRateOptions> = {}) {
+        this.options = { ...DEFAULT_EXCHANGE_RATE_OPTIONS, ...options };
+        for (const rate of rates) {
+            if (!(rate.rate > 0)) continue;
+            const key = `${rate.base}|${rate.currency}`;
+            this.byPair.set(key, [...(this.byPair.get(key) ?? []), rate]);
+        }
+        for (const list of this.byPair.values()) list.sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    /** Currencies quoted against, e.g. ["EUR"] for a table of ECB reference rates. */
+    get bases(): string[] {
+        return [...new Set([...this.byPair.keys()].map(key => key.split('|')[0]))];
+    }
+
+    /**
+     * The rate from one currency to another on a date, or null when the table has
+     * no rate recent enough.
+     */
+    rate(from: string, to: string, date: string): ConversionRate | null {
+        if (from === to) return { from, to, rate: 1, date };
+        const direct = this.quote(from, to, date);
+        if (direct) return { from, to, rate: direct.rate, date: direct.date };
+        const inverse = this.quote(to, from, date);
+        if (inverse) return { from, to, rate: 1 / inverse.rate, date: inverse.date };
+        for (const base of this.bases) {
+            const toFrom = this.quote(base, from, date);
+            const toTo = this.quote(base, to, date);
+            if (toFrom && toTo) {
+                return { from, to, rate: toTo.rate / toFrom.rate, date: toFrom.date < toTo.date ? toFrom.date : toTo.date };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Converts an amount, rounded half away from zero to `decimals` (the target
+     * currency's minor units by default).
+     */
+    convert(amount: number, from: string, to: string, date: string, decimals: number = currencyDecimals(to)): ConvertedAmount | null {
+        const rate = this.rate(from, to, date);
+        if (!rate) return null;
+        return {
+            amount: fromMinorUnits(toMinorUnits(amount * rate.rate, decimals), decimals),
+            currency: to,
+            original: amount,
+            originalCurrency: from,
+            rate: Number(rate.rate.toPrecision(10)),
+            rateDate: rate.date
+        };
+    }
+
+    private quote(base: string, currency: string, date: string): ExchangeRate | null {
+        const rates = this.byPair.get(`${base}|${currency}`);
+        if (!rates) return null;
+        let latest: ExchangeRate | null = null;
+        for (const rate of rates) {
+            if (rate.date > date) break;
+            latest = rate;
+        }
+        if (!latest || Date.parse(date) - Date.parse(latest.date) > this.options.maxAgeDays * DAY_MS) return null;
+        return latest;
+    }
+}
@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeliveryNote, ExchangeRate, ExtractedInvoice, HumanCorrection, PurchaseOrder } from './types';
+import { validateDeliveryNote, validateExchangeRate, validateHumanCorrection, validatePurchaseOrder } from './validation/documentSchemas';
+import { ValidationIssue, ValidationResult } from './validation/schema';
+
+const DATA_DIR = path.resolve(__dirname, 'data');
+
+/** A document that failed validation, by its position in the file. */
+export interface RejectedDocument {
+    source: string;
+    index: number;
+    issues: ValidationIssue[];
+    document: unknown;
+}
+
+function readArray(dataPath: string): unknown[] {
+    const parsed: unknown = JSON.parse(fs.readFileSync(dataPath, 'utf-8'));
+    if (!Array.isArray(parsed)) throw new Error(`${dataPath} must contain a JSON array`);
+    return parsed;
+}
+
+/**
+ * Reads a JSON array and keeps the documents that validate, normalized.
+ * Invalid ones are skipped and reported through `rejected`.
+ */
+function loadValidated<T>(dataPath: string, validator: (input: unknown) => ValidationResult<T>, rejected?: RejectedDocument[]): T[] {
+    const documents: T[] = [];
+    readArray(dataPath).forEach((document, index) => {
+        const result = validator(document);
+        if (result.ok) documents.push(result.value);
+        else rejected?.push({ source: dataPath, index, issues: result.issues, document });
+    });
+    return documents;
+}
+
+/**
+ * Loads invoices as extracted. `InvoiceAgent.process` validates and normalizes them:
+ * it needs the date as printed to learn and apply the vendor's date format, and
+ * routes invalid invoices to a rejected result of their own.
+ */
+export function loadInvoices(dataPath: string = path.join(DATA_DIR, 'invoices_extracted.json')): ExtractedInvoice[] {
+    return readArray(dataPath) as ExtractedInvoice[];
+}
+
+export function loadHumanCorrections(dataPath: string = path.join(DATA_DIR, 'human_corrections.json'), rejected?: RejectedDocument[]): HumanCorrection[] {
+    return loadValidated(dataPath, validateHumanCorrection, rejected);
+}
+
+export function loadPurchaseOrders(dataPath: string = path.join(DATA_DIR, 'purchase_orders.json'), rejected?: RejectedDocument[]): PurchaseOrder[] {
+    return loadValidated(dataPath, validatePurchaseOrder, rejected);
+}
+
+export function loadDeliveryNotes(dataPath: string = path.join(DATA_DIR, 'delivery_notes.json'), rejected?: RejectedDocument[]): DeliveryNote[] {
+    return loadValidated(dataPath, validateDeliveryNote, rejected);
+}
+
+export function loadExchangeRates(dataPath: string = path.join(DATA_DIR, 'exchange_rates.json'), rejected?: RejectedDocument[]): ExchangeRate[] {
+    return loadValidated(dataPath, validateExchangeRate, rejected);
+}
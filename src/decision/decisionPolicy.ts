@@ -0,0 +1,192 @@
+import { CurrencyCheck } from '../currency/currency';
+import { DuplicateCheckResult } from '../duplicates/duplicateDetector';
+import { ThreeWayMatchResult } from '../matching/threeWayMatch';
+import { TaxBreakdown } from '../tax/taxEngine';
+import { ProposedCorrection } from '../types';
+import { ArithmeticCheck } from '../validation/arithmetic';
+import { formatIssues, ValidationIssue } from '../validation/schema';
+
+// --- Decision policy: whether an invoice may pass without human review ---
+
+export interface DecisionPolicy {
+    /** Overall score below which review is required. The agent defaults it to `thresholds.autoApply`. */
+    minScore: number;
+    /**
+     * Gross amount at or above which an invoice is always reviewed; null for no limit.
+     * In the base currency when one is configured, and invoices that cannot be converted
+     * into it are reviewed; otherwise in the invoice's own currency.
+     */
+    reviewAmountAbove: number | null;
+    /**
+     * Review invoices with lines priced differently from the PO, missing from it, or
+     * billing another quantity than delivered (or ordered) unless the delivered one was applied.
+     */
+    reviewMatchVariance: boolean;
+    /** Review invoices whose stated total disagrees with the recomputed one. */
+    reviewTaxDiscrepancy: boolean;
+    /** Review invoices whose line or header arithmetic does not add up. */
+    reviewArithmetic: boolean;
+    /** Review invoices in another currency than their text or purchase order states. */
+    reviewCurrencyMismatch: boolean;
+}
+
+export const DEFAULT_DECISION_POLICY: DecisionPolicy = {
+    minScore: 0.6,
+    reviewAmountAbove: null,
+    reviewMatchVariance: true,
+    reviewTaxDiscrepancy: true,
+    reviewArithmetic: true,
+    reviewCurrencyMismatch: true
+};
+
+export type DecisionFactorKind =
+    | "validation" | "duplicate" | "vendor_memory" | "proposal" | "po_required" | "amount" | "match_variance" | "tax_discrepancy" | "arithmetic" | "currency_mismatch" | "exchange_rate" | "vat_rate";
+
+export interface DecisionFactor {
+    kind: DecisionFactorKind;
+    /** Confidence the factor contributes to the score; absent for plain checks. */
+    confidence?: number;
+    forcesReview: boolean;
+    reason: string;
+    /** Proposal ID, field or document the factor concerns. */
+    ref?: string;
+}
+
+export interface DecisionExplanation {
+    requiresHumanReview: boolean;
+    /** Lowest confidence among the factors: a decision is only as sure as its weakest part. */
+    confidenceScore: number;
+    factors: DecisionFactor[];
+}
+
+export interface DecisionInput {
+    proposals: ProposedCorrection[];
+    validationIssues: ValidationIssue[];
+    duplicateCheck: DuplicateCheckResult | null;
+    match: ThreeWayMatchResult | null;
+    tax: TaxBreakdown | null;
+    arithmetic: ArithmeticCheck | null;
+    currencyCheck: CurrencyCheck | null;
+    /** Gross amount, or the sum of line totals without one; in the base currency when converted. */
+    amount: number | null;
+    /** Currency of `amount`. */
+    currency: string | null;
+    /** Currency `reviewAmountAbove` is in, when one is configured; an amount in another currency was not converted. */
+    baseCurrency?: string | null;
+    /** Confidence of the vendor's memory; null when nothing is known about the vendor, absent when not assessed. */
+    vendorConfidence?: number | null;
+    /** Set when the vendor always references a PO but this invoice has none. */
+    missingRequiredPO?: boolean;
+    /** Confidence of the learned vendor VAT rate `tax` was computed with, when it is not confident enough to apply unreviewed. */
+    unconfirmedVatRate?: number;
+}
+
+/**
+ * Combines everything known about a processed invoice into one decision.
+ *
+ * Validation failures, duplicates, proposals that were not auto-applied, a missing
+ * required PO, an unconfirmed learned VAT rate, match variances, tax discrepancies,
+ * arithmetic findings, currency mismatches and amounts over the limit or not
+ * convertible into the base currency each force review on their own. Vendor memory
+ * and auto-applied proposals contribute their confidence; the score is the lowest
+ * of them and must reach `minScore`.
+ */
+export function evaluateDecision(input: DecisionInput, policy: DecisionPolicy = DEFAULT_DECISION_POLICY): DecisionExplanation {
+    const factors: DecisionFactor[] = [];
+    const scored = (kind: DecisionFactorKind, confidence: number, reason: string, ref?: string) =>
+        factors.push({ kind, confidence, forcesReview: confidence < policy.minScore, reason, ...(ref !== undefined ? { ref } : {}) });
+    const check = (kind: DecisionFactorKind, reason: string, ref?: string) =>
+        factors.push({ kind, forcesReview: true, reason, ...(ref !== undefined ? { ref } : {}) });
+
+    if (input.validationIssues.length > 0) {
+        check("validation", `Invalid input: ${formatIssues(input.validationIssues).join("; ")}`);
+    }
+
+    const duplicate = input.duplicateCheck;
+    if (duplicate && duplicate.classification !== "unique") {
+        // Possible double payment: no confidence waves it through
+        const of = duplicate.matches.map(m => m.invoiceId ?? m.duplicateKey).join(", ");
+        factors.push({ kind: "duplicate", confidence: 0, forcesReview: true, reason: `Flagged as ${duplicate.classification.replace(/_/g, " ")} of ${of}.`, ref: of });
+    }
+
+    if (input.vendorConfidence === null) {
+        factors.push({ kind: "vendor_memory", confidence: 0, forcesReview: true, reason: "No vendor memory." });
+    } else if (input.vendorConfidence !== undefined) {
+        const below = input.vendorConfidence < policy.minScore ? ` is below ${policy.minScore}` : "";
+        scored("vendor_memory", input.vendorConfidence, `Vendor memory confidence ${input.vendorConfidence}${below}.`);
+    }
+
+    for (const proposal of input.proposals) {
+        if (!proposal.autoApplied) {
+            factors.push({ kind: "proposal", confidence: proposal.confidence, forcesReview: true, reason: `Needs review: ${proposal.description}.`, ref: proposal.proposalId });
+        } else if (proposal.confidence >= policy.minScore) {
+            scored("proposal", proposal.confidence, `Auto-applied: ${proposal.description}.`, proposal.proposalId);
+        }
+        // Deterministic rules apply without memory; they neither raise nor lower the score
+    }
+
+    if (input.missingRequiredPO) {
+        check("po_required", "Vendor invoices always reference a PO, but none was found.");
+    }
+
+    if (policy.reviewMatchVariance && input.match) {
+        for (const line of input.match.lines) {
+            if (line.priceStatus === "variance") {
+                check("match_variance", `Line ${line.lineIndex + 1} deviates ${line.unitPriceVariancePercent}% from the PO price.`, input.match.poNumber ?? undefined);
+            } else if (line.status === "unmatched") {
+                check("match_variance", `Line ${line.lineIndex + 1} is not on ${input.match.poNumber ?? "the PO"}.`, input.match.poNumber ?? undefined);
+            }
+            // An auto-applied delivery note quantity already settled the difference
+            const field = `lineItems[${line.lineIndex}].quantity`;
+            if (line.quantityStatus === "variance" && !input.proposals.some(p => p.field === field && p.autoApplied)) {
+                const against = line.deliveredQuantity !== null ? `delivered ${line.deliveredQuantity}` : `ordered ${line.orderedQuantity}`;
+                check("match_variance", `Line ${line.lineIndex + 1} bills ${line.invoiceQuantity}, ${against}.`, field);
+            }
+        }
+    }
+
+    if (input.unconfirmedVatRate !== undefined && input.tax) {
+        factors.push({ kind: "vat_rate", confidence: input.unconfirmedVatRate, forcesReview: true, reason: `VAT rate ${input.tax.vatRate}% was learned for the vendor with confidence ${input.unconfirmedVatRate} only.` });
+    }
+
+    if (policy.reviewTaxDiscrepancy && input.tax) {
+        for (const discrepancy of input.tax.discrepancies) check("tax_discrepancy", discrepancy.details);
+    }
+
+    if (policy.reviewArithmetic && input.arithmetic) {
+        for (const finding of input.arithmetic.findings) {
+            check("arithmetic", `${finding.details}.`, finding.lineIndex !== undefined ? `lineItems[${finding.lineIndex}].totalPrice` : undefined);
+        }
+    }
+
+    if (policy.reviewCurrencyMismatch && input.currencyCheck) {
+        for (const mismatch of input.currencyCheck.mismatches) check("currency_mismatch", `${mismatch.details}.`, mismatch.ref);
+    }
+
+    const unconverted = !!input.baseCurrency && input.currency !== input.baseCurrency;
+    if (policy.reviewAmountAbove !== null && input.amount !== null && unconverted) {
+        // Comparing amounts in two currencies would say nothing
+        check("exchange_rate", `No ${input.currency ?? "unknown"}/${input.baseCurrency} exchange rate; amount ${input.amount} cannot be compared with the review limit of ${policy.reviewAmountAbove} ${input.baseCurrency}.`);
+    } else if (policy.reviewAmountAbove !== null && input.amount !== null && input.amount >= policy.reviewAmountAbove) {
+        const currency = input.currency ? ` ${input.currency}` : "";
+        check("amount", `Amount ${input.amount}${currency} is at or above the review limit of ${policy.reviewAmountAbove}${currency}.`);
+    }
+
+    const confidences = factors.filter(f => f.confidence !== undefined).map(f => f.confidence!);
+    const confidenceScore = confidences.length > 0 ? Math.min(...confidences) : 0;
+    return {
+        requiresHumanReview: factors.some(f => f.forcesReview) || confidenceScore < policy.minScore,
+        confidenceScore,
+        factors
+    };
+}
+
+/**
+ * One sentence per factor that forced review, or the all-clear.
+ */
+export function explainDecision(decision: DecisionExplanation): string {
+    const blocking = decision.factors.filter(f => f.forcesReview);
+    if (!decision.requiresHumanReview) return "All actions applied with high confidence.";
+    if (blocking.length === 0) return `Overall confidence ${decision.confidenceScore} below threshold.`;
+    return blocking.map(f => f.reason).join(" ");
+}
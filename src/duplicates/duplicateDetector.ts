@@ -0,0 +1,233 @@
+import { checkAndRecordInvoice, DuplicateEntry, getDuplicateEntry, InvoiceFingerprint, loadDuplicateIndex } from '../memory/duplicateMemory';
+import { getMemoryStore, MemoryStore } from '../memory/memoryStore';
+import { descriptionSimilarity } from '../matching/threeWayMatch';
+import { fromMinorUnits, toMinorUnits } from '../tax/money';
+import { ExtractedInvoice } from '../types';
+
+export type DuplicateClassification = "unique" | "exact_duplicate" | "probable_duplicate" | "credit_note_or_reissue";
+
+export interface DuplicateDetectionOptions {
+    /** Invoices further apart than this many days do not score on date. */
+    dateWindowDays: number;
+    /** Minimum score for a probable duplicate. */
+    probableThreshold: number;
+    /** Minimum vendor name similarity for two invoices to be compared at all. */
+    vendorSimilarity: number;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateDetectionOptions = {
+    dateWindowDays: 30,
+    probableThreshold: 0.75,
+    vendorSimilarity: 0.8
+};
+
+export interface DuplicateMatch {
+    invoiceId: string | null;
+    duplicateKey: string;
+    score: number;
+}
+
+export interface DuplicateCheckResult {
+    classification: DuplicateClassification;
+    /** Similarity to the closest prior invoice, 0..1. */
+    score: number;
+    /** Prior invoices that drove the classification, best match first. */
+    matches: DuplicateMatch[];
+    seenCount: number;
+}
+
+const SCORE_WEIGHTS = { invoiceNumber: 0.4, amount: 0.25, lines: 0.2, date: 0.15 };
+
+/**
+ * Lowercases, strips accents and punctuation: "Supplier GmbH." -> "supplier gmbh".
+ */
+export function normalizeVendorName(vendor: string): string {
+    return vendor
+        .normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9&]+/g, ' ')
+        .trim();
+}
+
+/**
+ * Uppercases and drops separators: "2025 001" and "2025-001" both become "2025001".
+ */
+export function normalizeInvoiceNumber(invoiceNumber: string): string {
+    return invoiceNumber.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function fingerprintInvoice(invoice: ExtractedInvoice): InvoiceFingerprint {
+    const { lineItems } = invoice.fields;
+    return {
+        invoiceId: invoice.invoiceId,
+        normalizedVendor: normalizeVendorName(invoice.vendor),
+        normalizedInvoiceNumber: normalizeInvoiceNumber(invoice.fields.invoiceNumber),
+        totalAmount: fromMinorUnits(lineItems.reduce((sum, li) => sum + toMinorUnits(li.totalPrice), 0)),
+        lineFingerprints: lineItems.map(li => `${li.description.toLowerCase().trim()}|${li.quantity}|${toMinorUnits(li.unitPrice)}`)
+    };
+}
+
+function editSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (a.length === 0 || b.length === 0) return 0;
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+function daysBetween(a: string, b: string): number {
+    return Math.abs(Date.parse(a) - Date.parse(b)) / 86400000;
+}
+
+function overlap(a: string[], b: string[]): number {
+    if (a.length === 0 && b.length === 0) return 1;
+    const setB = new Set(b);
+    const shared = new Set(a.filter(x => setB.has(x))).size;
+    return (2 * shared) / (new Set(a).size + setB.size);
+}
+
+interface ScoredCandidate {
+    entry: DuplicateEntry;
+    score: number;
+    sameNumber: boolean;
+    sameDate: boolean;
+    sameAmount: boolean;
+    negatedAmount: boolean;
+}
+
+function vendorSimilarityOf(fp: InvoiceFingerprint, normalizedVendor: string): number {
+    return normalizedVendor === fp.normalizedVendor ? 1 : descriptionSimilarity(normalizedVendor, fp.normalizedVendor);
+}
+
+function scoreCandidate(fp: InvoiceFingerprint, invoiceDate: string, entry: DuplicateEntry, vendorScore: number, options: DuplicateDetectionOptions): ScoredCandidate {
+    const entryNumber = entry.normalizedInvoiceNumber ?? normalizeInvoiceNumber(entry.invoiceNumber);
+    const numberScore = editSimilarity(entryNumber, fp.normalizedInvoiceNumber);
+    const days = daysBetween(entry.invoiceDate, invoiceDate);
+    const dateScore = Number.isFinite(days) && days <= options.dateWindowDays ? 1 - days / options.dateWindowDays : 0;
+
+    let amountScore = 0;
+    let sameAmount = false;
+    let negatedAmount = false;
+    if (entry.totalAmount !== undefined) {
+        const a = toMinorUnits(entry.totalAmount);
+        const b = toMinorUnits(fp.totalAmount);
+        sameAmount = a === b;
+        negatedAmount = a !== 0 && a === -b;
+        if (sameAmount || negatedAmount) amountScore = 1;
+        else if (Math.abs(a - b) <= Math.abs(a) * 0.01) amountScore = 0.5;
+    }
+    const lineScore = entry.lineFingerprints ? overlap(entry.lineFingerprints, fp.lineFingerprints) : 0;
+
+    const score = vendorScore * (
+        SCORE_WEIGHTS.invoiceNumber * numberScore +
+        SCORE_WEIGHTS.amount * amountScore +
+        SCORE_WEIGHTS.lines * lineScore +
+        SCORE_WEIGHTS.date * dateScore
+    );
+    return {
+        entry,
+        score: Math.round(score * 100) / 100,
+        sameNumber: numberScore === 1,
+        sameDate: days === 0,
+        sameAmount,
+        negatedAmount
+    };
+}
+
+function toMatch(c: ScoredCandidate): DuplicateMatch {
+    return { invoiceId: c.entry.invoiceId ?? null, duplicateKey: c.entry.duplicateKey, score: c.score };
+}
+
+/**
+ * Recorded invoices of vendors named similarly enough to compare with `fp`, each
+ * with that similarity. The index is consulted first, so other vendors' invoices
+ * are never read.
+ */
+function candidatesOf(fp: InvoiceFingerprint, store: MemoryStore, options: DuplicateDetectionOptions): Array<{ entry: DuplicateEntry; vendorScore: number }> {
+    const candidates: Array<{ entry: DuplicateEntry; vendorScore: number }> = [];
+    for (const indexed of loadDuplicateIndex(store)) {
+        const vendorScore = vendorSimilarityOf(fp, indexed.normalizedVendor ?? normalizeVendorName(indexed.vendor));
+        if (vendorScore < options.vendorSimilarity) continue;
+        for (const key of indexed.duplicateKeys) {
+            // Entries forgotten since they were indexed are skipped
+            const entry = store.get<DuplicateEntry>('duplicate', key);
+            if (entry) candidates.push({ entry, vendorScore });
+        }
+    }
+    return candidates;
+}
+
+/**
+ * Compares an invoice against the recorded invoices of similarly named vendors
+ * without recording it.
+ *
+ * - exact_duplicate: same vendor|invoiceNumber|invoiceDate key, or same normalized
+ *   vendor, number, date and amount (e.g. "2025 001" vs "2025-001").
+ * - credit_note_or_reissue: same vendor and number with a different date, or a
+ *   negated amount against a closely matching invoice.
+ * - probable_duplicate: overall similarity at or above the threshold.
+ */
+export function detectDuplicate(
+    invoice: ExtractedInvoice,
+    store: MemoryStore = getMemoryStore(),
+    options: DuplicateDetectionOptions = DEFAULT_DUPLICATE_OPTIONS
+): DuplicateCheckResult {
+    const { vendor, fields } = invoice;
+    const exact = getDuplicateEntry(vendor, fields.invoiceNumber, fields.invoiceDate, store);
+    if (exact) {
+        return { classification: "exact_duplicate", score: 1, matches: [{ invoiceId: exact.invoiceId ?? null, duplicateKey: exact.duplicateKey, score: 1 }], seenCount: exact.seenCount };
+    }
+
+    const fp = fingerprintInvoice(invoice);
+    const candidates = candidatesOf(fp, store, options)
+        .map(c => scoreCandidate(fp, fields.invoiceDate, c.entry, c.vendorScore, options))
+        .sort((a, b) => b.score - a.score);
+    const best = candidates[0];
+    if (!best) return { classification: "unique", score: 0, matches: [], seenCount: 0 };
+
+    const normalizedExact = candidates.filter(c => c.sameNumber && c.sameDate && c.sameAmount);
+    if (normalizedExact.length > 0) {
+        return { classification: "exact_duplicate", score: 1, matches: normalizedExact.map(toMatch), seenCount: normalizedExact[0].entry.seenCount };
+    }
+
+    const reissues = candidates.filter(c => (c.sameNumber && !c.sameDate) || (c.negatedAmount && c.score >= options.probableThreshold - SCORE_WEIGHTS.amount));
+    if (reissues.length > 0) {
+        return { classification: "credit_note_or_reissue", score: reissues[0].score, matches: reissues.map(toMatch), seenCount: 0 };
+    }
+
+    const probable = candidates.filter(c => c.score >= options.probableThreshold);
+    if (probable.length > 0) {
+        return { classification: "probable_duplicate", score: probable[0].score, matches: probable.map(toMatch), seenCount: 0 };
+    }
+    return { classification: "unique", score: best.score, matches: [], seenCount: 0 };
+}
+
+/**
+ * Classifies an invoice and records it in Duplicate Memory. Exact duplicates only
+ * bump the seen count of the invoice they duplicate.
+ */
+export function checkAndRecordDuplicate(
+    invoice: ExtractedInvoice,
+    store: MemoryStore = getMemoryStore(),
+    options: DuplicateDetectionOptions = DEFAULT_DUPLICATE_OPTIONS
+): DuplicateCheckResult {
+    const check = detectDuplicate(invoice, store, options);
+    const { vendor, fields } = invoice;
+    if (check.classification === "exact_duplicate") {
+        const prior = store.get<DuplicateEntry>('duplicate', check.matches[0].duplicateKey);
+        if (prior) {
+            prior.seenCount += 1;
+            store.put('duplicate', prior.duplicateKey, prior);
+            return { ...check, seenCount: prior.seenCount };
+        }
+        return check;
+    }
+    const recorded = checkAndRecordInvoice(vendor, fields.invoiceNumber, fields.invoiceDate, store, fingerprintInvoice(invoice));
+    return { ...check, seenCount: recorded.seenCount };
+}
@@ -0,0 +1,216 @@
+import { parseAmount } from '../tax/money';
+import { normalizeDate } from '../validation/schema';
+
+// --- Label-driven extraction of header fields from rawText ---
+
+export type ExtractableField = "serviceDate" | "poNumber" | "dueDate" | "taxId" | "totalNet" | "totalTax" | "totalGross";
+
+export const EXTRACTABLE_FIELDS: ExtractableField[] = ["serviceDate", "poNumber", "dueDate", "taxId", "totalNet", "totalTax", "totalGross"];
+
+type ValueKind = "date" | "identifier" | "amount";
+
+const KIND_OF: Record<ExtractableField, ValueKind> = {
+    serviceDate: "date",
+    dueDate: "date",
+    poNumber: "identifier",
+    taxId: "identifier",
+    totalNet: "amount",
+    totalTax: "amount",
+    totalGross: "amount"
+};
+
+/** Labels tried when the vendor has none learned, in German and English. Longer labels first. */
+export const DEFAULT_FIELD_LABELS: Record<ExtractableField, string[]> = {
+    serviceDate: ["Leistungsdatum", "Leistungszeitraum", "Lieferdatum", "Date of Service", "Service Date", "Service Period", "Delivery Date"],
+    poNumber: ["Bestellnummer", "Bestell-Nr.", "Purchase Order", "Order Number", "Order No.", "PO Number", "PO No.", "PO"],
+    dueDate: ["Fälligkeitsdatum", "Zahlbar bis", "Fällig am", "Payment Due", "Due Date"],
+    taxId: ["USt-IdNr.", "USt-ID", "Steuernummer", "VAT Reg. No.", "VAT Number", "VAT No.", "VAT ID", "Tax ID", "UID"],
+    totalNet: ["Nettobetrag", "Zwischensumme", "Netto", "Subtotal", "Net Amount", "Net"],
+    totalTax: ["MwSt.-Betrag", "VAT Amount", "Tax Amount", "MwSt.", "MwSt", "USt.", "USt", "VAT"],
+    totalGross: ["Rechnungsbetrag", "Gesamtbetrag", "Bruttobetrag", "Grand Total", "Amount Due", "Gesamt", "Brutto", "Total"]
+};
+
+/** How an extracted value was found. */
+export interface FieldProvenance {
+    /** Label the value followed, as configured. */
+    label: string;
+    /** `vendorMemory` for a label learned for the vendor, `default` for a built-in one. */
+    source: "vendorMemory" | "default";
+    /** Confidence of the learned label; absent for built-in labels. */
+    confidence?: number;
+    /** 1-based line of rawText. */
+    line: number;
+    /** The value as printed. */
+    text: string;
+}
+
+export interface ExtractedField<T = unknown> {
+    value: T;
+    provenance: FieldProvenance;
+}
+
+export type ExtractedFields = Partial<Record<ExtractableField, ExtractedField>>;
+
+export interface LearnedLabel {
+    label: string;
+    confidence: number;
+}
+
+export interface ExtractionOptions {
+    /** Labels learned for the vendor, tried before the built-in ones. */
+    labels?: Partial<Record<ExtractableField, LearnedLabel>>;
+    /** Vendor date format, e.g. "MM/DD/YYYY", for dates that read either way. */
+    dateFormat?: string;
+}
+
+const MONTHS: Record<string, number> = {
+    january: 1, januar: 1, jan: 1, jänner: 1,
+    february: 2, februar: 2, feb: 2,
+    march: 3, märz: 3, maerz: 3, mar: 3, mär: 3,
+    april: 4, apr: 4,
+    may: 5, mai: 5,
+    june: 6, juni: 6, jun: 6,
+    july: 7, juli: 7, jul: 7,
+    august: 8, aug: 8,
+    september: 9, sept: 9, sep: 9,
+    october: 10, oktober: 10, oct: 10, okt: 10,
+    november: 11, nov: 11,
+    december: 12, dezember: 12, dec: 12, dez: 12
+};
+
+const NUMERIC_DATE = /^(\d{4}-\d{1,2}-\d{1,2}|\d{4}\/\d{1,2}\/\d{1,2}|\d{1,2}[./-]\d{1,2}[./-](?:\d{4}|\d{2}))(?![\d])/;
+const DAY_MONTH_YEAR = /^(\d{1,2})\.?\s+([A-Za-zÄÖÜäöü]+)\.?\s+(\d{4})\b/;
+const MONTH_DAY_YEAR = /^([A-Za-zÄÖÜäöü]+)\.?\s+(\d{1,2}),?\s+(\d{4})\b/;
+// Grouped ("1.234,56", "1 234.56") or plain ("1234.56"); a percentage is a rate, not an amount
+const AMOUNT = /^(?:[A-Z]{3}\s*|[€$£]\s*)?(-?\d{1,3}(?:[.,' ]\d{3})+(?:[.,]\d{1,2})?|-?\d+(?:[.,]\d+)?)(?!\s*%)(?![\d.,])/;
+// A rate printed between label and amount, as in "MwSt. 19%: 234,57"
+const RATE = /^\d{1,2}(?:[.,]\d+)?\s*%\s*[:#=]?\s*/;
+const IDENTIFIER = /^([A-Za-z0-9][A-Za-z0-9/._-]*[A-Za-z0-9]|[0-9])/;
+
+function isoOf(year: number, month: number, day: number): string | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Reads a date at the start of `text`: numeric forms the way `normalizeDate` does,
+ * or with a month name, e.g. "15. März 2025" or "March 15, 2025".
+ */
+export function parseDateText(text: string, dateFormat?: string): { value: string; text: string } | null {
+    const trimmed = text.trim();
+    const numeric = trimmed.match(NUMERIC_DATE);
+    if (numeric) {
+        const value = normalizeDate(numeric[1], dateFormat);
+        return value ? { value, text: numeric[1] } : null;
+    }
+    const dayFirst = trimmed.match(DAY_MONTH_YEAR);
+    if (dayFirst && MONTHS[dayFirst[2].toLowerCase()]) {
+        const value = isoOf(Number(dayFirst[3]), MONTHS[dayFirst[2].toLowerCase()], Number(dayFirst[1]));
+        return value ? { value, text: dayFirst[0] } : null;
+    }
+    const monthFirst = trimmed.match(MONTH_DAY_YEAR);
+    if (monthFirst && MONTHS[monthFirst[1].toLowerCase()]) {
+        const value = isoOf(Number(monthFirst[3]), MONTHS[monthFirst[1].toLowerCase()], Number(monthFirst[2]));
+        return value ? { value, text: monthFirst[0] } : null;
+    }
+    return null;
+}
+
+/**
+ * Reads the value of a field at the start of `text`.
+ */
+function parseValue(kind: ValueKind, text: string, dateFormat?: string): { value: unknown; text: string } | null {
+    if (kind === "date") return parseDateText(text, dateFormat);
+    if (kind === "amount") {
+        const match = text.replace(RATE, '').match(AMOUNT);
+        const value = match ? parseAmount(match[1]) : null;
+        return value !== null ? { value, text: match![1].trim() } : null;
+    }
+    const match = text.match(IDENTIFIER);
+    // An identifier without a digit is a word, e.g. "PO box"
+    return match && /\d/.test(match[1]) ? { value: match[1], text: match[1] } : null;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The text following `label` on a line, past separators such as ":" or "#".
+ */
+function afterLabel(line: string, label: string): string | null {
+    const match = line.match(new RegExp(`(?:^|[\\s,;|(])${escapeRegExp(label.trim())}(?![\\p{L}\\d])\\s*[:#=]?\\s*`, 'iu'));
+    return match ? line.slice(match.index! + match[0].length) : null;
+}
+
+/**
+ * Finds `field` in rawText after one of the given labels, learned label first.
+ */
+function extractField(field: ExtractableField, lines: string[], options: ExtractionOptions): ExtractedField | null {
+    const learned = options.labels?.[field];
+    const candidates: Array<{ label: string; source: FieldProvenance['source']; confidence?: number }> = [
+        ...(learned ? [{ label: learned.label, source: "vendorMemory" as const, confidence: learned.confidence }] : []),
+        ...DEFAULT_FIELD_LABELS[field].map(label => ({ label, source: "default" as const }))
+    ];
+    for (const candidate of candidates) {
+        for (let i = 0; i < lines.length; i++) {
+            const rest = afterLabel(lines[i], candidate.label);
+            if (rest === null) continue;
+            const parsed = parseValue(KIND_OF[field], rest, options.dateFormat);
+            if (!parsed) continue;
+            return {
+                value: parsed.value,
+                provenance: { label: candidate.label, source: candidate.source, ...(candidate.confidence !== undefined ? { confidence: candidate.confidence } : {}), line: i + 1, text: parsed.text }
+            };
+        }
+    }
+    return null;
+}
+
+/**
+ * Reads service date, PO number, due date, tax ID and stated totals from rawText.
+ * Each value follows a label, either one learned for the vendor or a built-in one.
+ * Dates come back as ISO `YYYY-MM-DD`, amounts as numbers.
+ */
+export function extractFields(rawText: string, options: ExtractionOptions = {}): ExtractedFields {
+    const lines = rawText.split(/\r?\n/);
+    const extracted: ExtractedFields = {};
+    for (const field of EXTRACTABLE_FIELDS) {
+        const found = extractField(field, lines, options);
+        if (found) extracted[field] = found;
+    }
+    return extracted;
+}
+
+/**
+ * The label printed before `value` in rawText, e.g. "Bestellnummer" for "Bestellnummer: 4711",
+ * so a reviewer's correction can teach where the vendor puts a field. Dates and
+ * amounts are compared as parsed values, so "15.01.2025" matches "2025-01-15".
+ */
+export function findLabel(rawText: string, field: ExtractableField, value: unknown, dateFormat?: string): string | null {
+    const kind = KIND_OF[field];
+    const wanted = kind === "amount" ? Number(value) : kind === "date" ? normalizeDate(String(value)) ?? String(value) : String(value).trim();
+    for (const line of rawText.split(/\r?\n/)) {
+        // Try every word boundary: the words before it are the label, the rest must parse to the value
+        const boundaries = [...line.matchAll(/\s+/g)].map(m => m.index! + m[0].length);
+        for (const at of boundaries) {
+            const label = line.slice(0, at).trim().replace(/\s*[:#=]$/, '').split(/[,;|]/).pop()!.trim();
+            if (!/\p{L}/u.test(label)) continue;
+            const parsed = parseValue(kind, line.slice(at), dateFormat);
+            if (!parsed) continue;
+            const same = kind === "identifier" ? String(parsed.value).toLowerCase() === String(wanted).toLowerCase() : parsed.value === wanted;
+            if (same) return label.split(/\s+/).slice(-4).join(' ');
+        }
+    }
+    return null;
+}
+
+/**
+ * The extractable field a corrected field name refers to, e.g. "dueDate" or "totals.gross".
+ */
+export function extractableFieldOf(field: string): ExtractableField | null {
+    const normalized = field.replace(/[^A-Za-z]/g, '').toLowerCase();
+    const aliases: Record<string, ExtractableField> = { totalsnet: "totalNet", totalstax: "totalTax", totalsgross: "totalGross", total: "totalGross", vatid: "taxId", ponumber: "poNumber" };
+    return EXTRACTABLE_FIELDS.find(f => f.toLowerCase() === normalized) ?? aliases[normalized] ?? null;
+}
@@ -0,0 +1,38 @@
+// --- Public entry point ---
+export * from './types';
+export { InvoiceAgent, InvoiceAgentConfig, AgentThresholds, DEFAULT_THRESHOLDS } from './agent/invoiceAgent';
+export { findMatchingPO, inferCurrencyFromRawText } from './agent/detectors';
+export { RuleRegistry, RuleDefinition, RuleMatcher, RuleAction, RuleField, loadRules } from './rules/ruleRegistry';
+export { evaluateRule, RuleHit } from './rules/ruleMatcher';
+export { applyCorrections, getFieldValue, setFieldValue } from './corrections/applyCorrections';
+export { computeTax, splitAmount, taxOnTotal, parseVatRate, parseStatedTotal, TaxAmounts, TaxBreakdown, TaxDiscrepancy, TaxInput, LineTax, VatRateSource } from './tax/taxEngine';
+export { toMinorUnits, fromMinorUnits, roundDiv, parseAmount, currencyDecimals, ROUNDING_MODES, RoundingMode, TaxRounding } from './tax/money';
+export { checkArithmetic, describeArithmetic, DEFAULT_ARITHMETIC_TOLERANCES, ArithmeticCheck, ArithmeticFinding, ArithmeticFindingKind, ArithmeticInput, ArithmeticTolerances, RoundingObservation } from './validation/arithmetic';
+export { detectCurrency, findCurrencyMentions, findCurrencyMismatches, CURRENCY_CODES, CURRENCY_SYMBOLS, CurrencyCheck, CurrencyDetection, CurrencyMention, CurrencyMismatch } from './currency/currency';
+export { ExchangeRateTable, DEFAULT_EXCHANGE_RATE_OPTIONS, ConversionRate, ConvertedAmount, ExchangeRateOptions } from './currency/exchangeRates';
+export { ReviewQueue, ReviewItem, ReviewProposal, ReviewDecision } from './review/reviewQueue';
+export { InvoiceApiServer, HttpError } from './server';
+export { loadDeliveryNotes, loadExchangeRates, loadHumanCorrections, loadInvoices, loadPurchaseOrders, RejectedDocument } from './dataLoaders';
+export { validateExtractedInvoice, validateHumanCorrection, validatePurchaseOrder, validateDeliveryNote, validateExchangeRate } from './validation/documentSchemas';
+export { normalizeDate, dateFormatOf, formatIssues, ValidationError, ValidationIssue, ValidationResult } from './validation/schema';
+export { extractFields, findLabel, parseDateText, extractableFieldOf, EXTRACTABLE_FIELDS, DEFAULT_FIELD_LABELS, ExtractableField, ExtractedField, ExtractedFields, FieldProvenance, ExtractionOptions, LearnedLabel } from './extraction/labelExtractor';
+export { evaluateDecision, explainDecision, DEFAULT_DECISION_POLICY, DecisionPolicy, DecisionInput, DecisionExplanation, DecisionFactor, DecisionFactorKind } from './decision/decisionPolicy';
+export { matchInvoiceLines, descriptionSimilarity, DEFAULT_MATCH_TOLERANCES, MatchTolerances, LineCheckStatus, LineMatch, LineMatchStatus, ThreeWayMatchResult } from './matching/threeWayMatch';
+export { detectDuplicate, checkAndRecordDuplicate, fingerprintInvoice, normalizeVendorName, normalizeInvoiceNumber, DEFAULT_DUPLICATE_OPTIONS, DuplicateCheckResult, DuplicateClassification, DuplicateDetectionOptions, DuplicateMatch } from './duplicates/duplicateDetector';
+export { MemoryStore, MemoryCollection, MEMORY_COLLECTIONS, getMemoryStore, setMemoryStore } from './memory/memoryStore';
+export { JsonFileMemoryStore } from './memory/jsonFileStore';
+export { SqliteMemoryStore } from './memory/sqliteStore';
+export { LayeredMemoryStore, BASELINE_COLLECTIONS } from './memory/layeredStore';
+export * from './memory/vendorMemory';
+export * from './memory/correctionMemory';
+export * from './memory/resolutionMemory';
+export * from './memory/duplicateMemory';
+export * from './memory/confidenceModel';
+export * from './memory/candidateMemory';
+export { VendorRegistry, VendorIdentity, VendorMatch, VendorResolution, loadVendors } from './vendors/vendorRegistry';
+export { parsePaymentTerms, findPaymentTerms, schedulePayment, PaymentTerms, PaymentSchedule } from './payments/paymentTerms';
+export * from './memory/memoryBundle';
+export * from './memory/memoryJournal';
+export * from './audit/auditLog';
+export * from './batch/batchRunner';
+export * from './tenants/tenantRegistry';
@@ -0,0 +1,157 @@
+import { DeliveryNote, LineItem, POLineItem, PurchaseOrder } from '../types';
+import { toMinorUnits } from '../tax/money';
+
+export interface MatchTolerances {
+    /** Allowed absolute quantity difference per line. */
+    quantity: number;
+    /** Allowed unit price difference in percent of the PO price. */
+    unitPricePercent: number;
+    /** Minimum description similarity (0..1) for pairing lines without a common SKU. */
+    descriptionSimilarity: number;
+}
+
+export const DEFAULT_MATCH_TOLERANCES: MatchTolerances = {
+    quantity: 0,
+    unitPricePercent: 1,
+    descriptionSimilarity: 0.6
+};
+
+export type LineMatchStatus = "matched" | "quantity_variance" | "price_variance" | "unmatched";
+
+/** Outcome of one check on a line; null when there was nothing to check against. */
+export type LineCheckStatus = "matched" | "variance" | null;
+
+export interface LineMatch {
+    lineIndex: number;
+    /** Headline for the line: unmatched, else a quantity variance before a price variance. */
+    status: LineMatchStatus;
+    /** Invoiced against delivered quantity, or ordered without delivery notes. */
+    quantityStatus: LineCheckStatus;
+    /** Invoiced against PO unit price, checked regardless of the quantity. */
+    priceStatus: LineCheckStatus;
+    matchedBy: "sku" | "description" | null;
+    poLine: POLineItem | null;
+    /** Delivery notes that contributed to `deliveredQuantity`. */
+    deliveryNoteNumbers: string[];
+    invoiceQuantity: number;
+    orderedQuantity: number | null;
+    deliveredQuantity: number | null;
+    /** Invoice quantity minus delivered quantity (or ordered, without delivery notes). */
+    quantityVariance: number | null;
+    invoiceUnitPrice: number;
+    poUnitPrice: number | null;
+    /** Percent difference of the invoice unit price against the PO price. */
+    unitPriceVariancePercent: number | null;
+}
+
+export interface ThreeWayMatchResult {
+    poNumber: string | null;
+    status: "matched" | "variance" | "unmatched";
+    lines: LineMatch[];
+}
+
+function tokens(text: string): string[] {
+    return text.toLowerCase().split(/[^a-z0-9äöüß]+/).filter(t => t.length > 0);
+}
+
+/**
+ * Dice coefficient over word tokens, 0 (disjoint) to 1 (same words).
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+    const ta = tokens(a);
+    const tb = new Set(tokens(b));
+    if (ta.length === 0 || tb.size === 0) return 0;
+    const shared = new Set(ta.filter(t => tb.has(t))).size;
+    return (2 * shared) / (new Set(ta).size + tb.size);
+}
+
+function findLine<T extends { sku: string | null; description: string }>(
+    line: LineItem,
+    candidates: T[],
+    minSimilarity: number
+): { match: T; matchedBy: "sku" | "description" } | null {
+    if (line.sku) {
+        const bySku = candidates.find(c => c.sku === line.sku);
+        if (bySku) return { match: bySku, matchedBy: "sku" };
+    }
+    let best: T | null = null;
+    let bestScore = 0;
+    for (const candidate of candidates) {
+        const score = descriptionSimilarity(line.description, candidate.description);
+        if (score > bestScore) {
+            best = candidate;
+            bestScore = score;
+        }
+    }
+    return best && bestScore >= minSimilarity ? { match: best, matchedBy: "description" } : null;
+}
+
+/**
+ * Pairs each invoice line with its PO line and delivery note lines, by SKU or
+ * fuzzy description, and checks quantity and unit price independently.
+ * Delivered quantities are summed over all delivery notes for the PO.
+ */
+export function matchInvoiceLines(
+    lineItems: LineItem[],
+    purchaseOrder: PurchaseOrder | null,
+    deliveryNotes: DeliveryNote[],
+    tolerances: MatchTolerances = DEFAULT_MATCH_TOLERANCES
+): ThreeWayMatchResult {
+    const notes = purchaseOrder ? deliveryNotes.filter(dn => dn.poNumber === purchaseOrder.poNumber) : [];
+
+    const lines = lineItems.map((li, lineIndex): LineMatch => {
+        const poMatch = purchaseOrder ? findLine(li, purchaseOrder.lineItems, tolerances.descriptionSimilarity) : null;
+        const poLine = poMatch?.match ?? null;
+        // Pair delivery lines through the PO line's SKU when we have one, so both legs agree
+        const dnKey: LineItem = poLine ? { ...li, sku: poLine.sku, description: poLine.description } : li;
+
+        let deliveredQuantity: number | null = null;
+        const deliveryNoteNumbers: string[] = [];
+        for (const note of notes) {
+            const dnMatch = findLine(dnKey, note.lineItems, tolerances.descriptionSimilarity);
+            if (dnMatch) {
+                deliveredQuantity = (deliveredQuantity ?? 0) + dnMatch.match.quantity;
+                deliveryNoteNumbers.push(note.deliveryNoteNumber);
+            }
+        }
+
+        const reference = deliveredQuantity ?? poLine?.quantity ?? null;
+        const quantityVariance = reference === null ? null : li.quantity - reference;
+        const unitPriceVariancePercent = poLine && poLine.unitPrice !== 0
+            ? toMinorUnits(((li.unitPrice - poLine.unitPrice) / poLine.unitPrice) * 100, 2) / 100
+            : null;
+
+        const quantityStatus: LineCheckStatus = quantityVariance === null ? null
+            : Math.abs(quantityVariance) > tolerances.quantity ? "variance" : "matched";
+        const priceStatus: LineCheckStatus = unitPriceVariancePercent === null ? null
+            : Math.abs(unitPriceVariancePercent) > tolerances.unitPricePercent ? "variance" : "matched";
+
+        let status: LineMatchStatus = "matched";
+        if (!poLine && deliveredQuantity === null) status = "unmatched";
+        else if (quantityStatus === "variance") status = "quantity_variance";
+        else if (priceStatus === "variance") status = "price_variance";
+
+        return {
+            lineIndex,
+            status,
+            quantityStatus,
+            priceStatus,
+            matchedBy: poMatch?.matchedBy ?? null,
+            poLine,
+            deliveryNoteNumbers,
+            invoiceQuantity: li.quantity,
+            orderedQuantity: poLine?.quantity ?? null,
+            deliveredQuantity,
+            quantityVariance,
+            invoiceUnitPrice: li.unitPrice,
+            poUnitPrice: poLine?.unitPrice ?? null,
+            unitPriceVariancePercent
+        };
+    });
+
+    let status: ThreeWayMatchResult['status'] = "matched";
+    if (lines.some(l => l.status === "unmatched")) status = "unmatched";
+    else if (lines.some(l => l.status !== "matched")) status = "variance";
+
+    return { poNumber: purchaseOrder?.poNumber ?? null, status, lines };
+}
@@ -0,0 +1,274 @@
+import { getMemoryStore, MemoryStore, timestampOf } from './memoryStore';
+import { forgetCorrectionMemory, rememberCorrectionApproval, rememberCorrectionRejection } from './correctionMemory';
+import { getFieldValue } from '../corrections/applyCorrections';
+import { FieldCorrection, NormalizedInvoice } from '../types';
+
+/**
+ * When a learned correction applies:
+ * - `missing`: the field is empty
+ * - `value`: the field holds `originalValue` (an original-to-corrected mapping)
+ * - `cue`: the field is empty and the raw text states the corrected value after `cue`, e.g. "order ref"
+ */
+export type PatternCondition =
+    | { kind: "missing" }
+    | { kind: "value"; originalValue: string | number | boolean }
+    | { kind: "cue"; cue: string };
+
+/**
+ * A correction seen on a vendor's invoices, generalized to a field and condition.
+ * It stays a candidate until enough consistent approvals promote it to an active
+ * pattern in Correction Memory.
+ */
+export interface CorrectionCandidate {
+    /** Correction Memory pattern the candidate becomes, e.g. `LEARNED:poNumber:missing`. */
+    patternId: string;
+    vendor: string;
+    /** Field path with line indexes generalized, e.g. `lineItems[].sku`. */
+    field: string;
+    condition: PatternCondition;
+    correctedValue: unknown;
+    status: "candidate" | "active";
+    approvedCount: number;
+    rejectedCount: number;
+    /** Corrections that contributed, oldest first; only the last 20 are kept. */
+    corrections: string[];
+    firstSeen: string;
+    lastUpdated: string;
+}
+
+export interface CandidateLearningOptions {
+    /** Approvals, net of rejections, after which a candidate becomes active. */
+    promoteAfter: number;
+}
+
+export const DEFAULT_CANDIDATE_LEARNING: CandidateLearningOptions = {
+    promoteAfter: 2
+};
+
+/** A learned correction matched against one invoice field. */
+export interface CandidateMatch {
+    /** Concrete field path, e.g. `lineItems[2].sku`. */
+    field: string;
+    oldValue: unknown;
+}
+
+const CORRECTIONS_LIMIT = 20;
+
+/** Fields of the normalized invoice a learned pattern may set. */
+const INVOICE_FIELDS = ['invoiceNumber', 'invoiceDate', 'currency', 'serviceDateLabel', 'pricesIncludeVAT', 'poNumber', 'discountTerms'];
+const LINE_FIELDS = ['description', 'quantity', 'unitPrice', 'totalPrice', 'sku', 'vatRate'];
+const LINE_FIELD = /^lineItems\[\d*\]\.(\w+)$/;
+
+/**
+ * Field path with line indexes dropped: `lineItems[2].sku` becomes `lineItems[].sku`.
+ */
+export function generalizeField(field: string): string {
+    return field.trim().replace(/^lineItems\[\d+\]/, 'lineItems[]');
+}
+
+function isEmpty(value: unknown): boolean {
+    return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+function normalizeText(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The words printed before `value` on the raw text line that states it, at most four.
+ */
+function cueOf(rawText: string, value: unknown): string | null {
+    const needle = normalizeText(String(value));
+    if (!needle) return null;
+    for (const line of rawText.split(/\r?\n/)) {
+        const text = normalizeText(line);
+        const at = text.indexOf(needle);
+        if (at <= 0) continue;
+        const label = text.slice(0, at).replace(/[\s:#=\-–.]+$/, '').split(/[|;,]/).pop()!.trim();
+        const words = label.split(' ').filter(w => w.length > 0).slice(-4);
+        if (words.length > 0) return words.join(' ');
+    }
+    return null;
+}
+
+/**
+ * The condition a correction generalizes to. A scalar original value maps to the
+ * corrected one; an empty one is keyed on the raw-text cue when the document states the value.
+ */
+export function deriveCondition(correction: FieldCorrection, rawText?: string): PatternCondition {
+    const { originalValue } = correction;
+    if (!isEmpty(originalValue) && (typeof originalValue === 'string' || typeof originalValue === 'number' || typeof originalValue === 'boolean')) {
+        return { kind: "value", originalValue: typeof originalValue === 'string' ? originalValue.trim() : originalValue };
+    }
+    const cue = rawText ? cueOf(rawText, correction.correctedValue) : null;
+    return cue ? { kind: "cue", cue } : { kind: "missing" };
+}
+
+/**
+ * Pattern ID of a field and condition, e.g. `LEARNED:currency:value=USD`.
+ */
+export function candidatePatternIdOf(field: string, condition: PatternCondition): string {
+    const detail = condition.kind === "value" ? `value=${String(condition.originalValue)}`
+        : condition.kind === "cue" ? `cue=${condition.cue}`
+        : "missing";
+    // '|' separates vendor and pattern in Correction Memory keys
+    return `LEARNED:${field}:${detail}`.replace(/\|/g, '/');
+}
+
+/**
+ * Key a candidate is stored under: `vendorId|patternId`.
+ */
+export function candidateKeyOf(vendor: string, patternId: string): string {
+    return `${vendor}|${patternId}`;
+}
+
+/**
+ * Human-readable form of a candidate, e.g. "poNumber when empty and the text says 'order ref'".
+ */
+export function describeCandidate(candidate: Pick<CorrectionCandidate, 'field' | 'condition'>): string {
+    const { field, condition } = candidate;
+    if (condition.kind === "value") return `${field} when it reads '${String(condition.originalValue)}'`;
+    if (condition.kind === "cue") return `${field} when empty and the text says '${condition.cue}'`;
+    return `${field} when empty`;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function activate(candidate: CorrectionCandidate, store: MemoryStore): void {
+    // Correction Memory starts from the evidence the candidate gathered
+    const description = `Learned: ${describeCandidate(candidate)}`;
+    const action = `Set ${candidate.field} = ${String(candidate.correctedValue)}`;
+    forgetCorrectionMemory(candidate.patternId, store, candidate.vendor);
+    for (let i = 0; i < candidate.approvedCount; i++) rememberCorrectionApproval(candidate.patternId, description, action, store, candidate.vendor);
+    for (let i = 0; i < candidate.rejectedCount; i++) rememberCorrectionRejection(candidate.patternId, store, candidate.vendor);
+    candidate.status = "active";
+}
+
+/**
+ * Learns from one reviewed field correction. Approvals of the same value count for
+ * the candidate and rejections against it; an approval of a different value is
+ * inconsistent evidence and starts the candidate over. Once active, further
+ * decisions go to Correction Memory as well.
+ */
+export function learnFromFieldCorrection(
+    vendor: string,
+    correction: FieldCorrection,
+    decision: "approved" | "rejected",
+    correctionId: string,
+    store: MemoryStore = getMemoryStore(),
+    options: CandidateLearningOptions = DEFAULT_CANDIDATE_LEARNING,
+    rawText?: string
+): CorrectionCandidate {
+    const field = generalizeField(correction.field);
+    const condition = deriveCondition(correction, rawText);
+    const patternId = candidatePatternIdOf(field, condition);
+    const key = candidateKeyOf(vendor, patternId);
+    const timestamp = timestampOf(store);
+    const existing = store.get<CorrectionCandidate>('candidate', key);
+    const approved = decision === "approved";
+
+    let candidate: CorrectionCandidate;
+    if (!existing || (approved && !sameValue(existing.correctedValue, correction.correctedValue))) {
+        if (existing?.status === "active") forgetCorrectionMemory(patternId, store, vendor);
+        candidate = {
+            patternId,
+            vendor,
+            field,
+            condition,
+            correctedValue: correction.correctedValue,
+            status: "candidate",
+            approvedCount: approved ? 1 : 0,
+            rejectedCount: approved ? 0 : 1,
+            corrections: [correctionId],
+            firstSeen: timestamp,
+            lastUpdated: timestamp
+        };
+    } else if (!sameValue(existing.correctedValue, correction.correctedValue)) {
+        // A rejected value the candidate never proposed says nothing about it
+        return existing;
+    } else {
+        candidate = {
+            ...existing,
+            approvedCount: existing.approvedCount + (approved ? 1 : 0),
+            rejectedCount: existing.rejectedCount + (approved ? 0 : 1),
+            corrections: [...existing.corrections, correctionId].slice(-CORRECTIONS_LIMIT),
+            lastUpdated: timestamp
+        };
+        if (candidate.status === "active") {
+            approved
+                ? rememberCorrectionApproval(patternId, `Learned: ${describeCandidate(candidate)}`, `Set ${field} = ${String(candidate.correctedValue)}`, store, vendor)
+                : rememberCorrectionRejection(patternId, store, vendor);
+        }
+    }
+
+    if (candidate.status === "candidate" && candidate.approvedCount - candidate.rejectedCount >= options.promoteAfter) {
+        activate(candidate, store);
+    }
+    store.put('candidate', key, candidate);
+    return candidate;
+}
+
+/**
+ * Candidates learned for one vendor, active and not.
+ */
+export function getCandidates(vendor: string, store: MemoryStore = getMemoryStore()): CorrectionCandidate[] {
+    return Object.values(store.getAll<CorrectionCandidate>('candidate')).filter(c => c.vendor === vendor);
+}
+
+/**
+ * The vendor's active patterns.
+ */
+export function getActiveCandidates(vendor: string, store: MemoryStore = getMemoryStore()): CorrectionCandidate[] {
+    return getCandidates(vendor, store).filter(c => c.status === "active");
+}
+
+function conditionHolds(condition: PatternCondition, current: unknown, correctedValue: unknown, rawText: string): boolean {
+    if (condition.kind === "value") {
+        return typeof current === 'string'
+            ? current.trim() === condition.originalValue
+            : current === condition.originalValue;
+    }
+    if (!isEmpty(current)) return false;
+    if (condition.kind === "missing") return true;
+    const value = normalizeText(String(correctedValue));
+    return rawText.split(/\r?\n/).some(line => {
+        const text = normalizeText(line);
+        const at = text.indexOf(condition.cue);
+        return at >= 0 && text.indexOf(value, at + condition.cue.length) >= 0;
+    });
+}
+
+/**
+ * Fields of the invoice the candidate's condition holds for and that do not
+ * already hold the corrected value. Fields the normalized invoice lacks never match.
+ */
+export function matchCandidate(candidate: CorrectionCandidate, invoice: NormalizedInvoice, rawText: string = ""): CandidateMatch[] {
+    const line = LINE_FIELD.exec(candidate.field);
+    const paths = line
+        ? (LINE_FIELDS.includes(line[1]) ? invoice.lineItems.map((_, i) => `lineItems[${i}].${line[1]}`) : [])
+        : (INVOICE_FIELDS.includes(candidate.field) ? [candidate.field] : []);
+    const matches: CandidateMatch[] = [];
+    for (const field of paths) {
+        const current = getFieldValue(invoice, field);
+        if (sameValue(current, candidate.correctedValue)) continue;
+        if (conditionHolds(candidate.condition, current, candidate.correctedValue, rawText)) matches.push({ field, oldValue: current });
+    }
+    return matches;
+}
+
+/**
+ * Moves every candidate of `fromVendor` onto `intoVendor`; where both have one,
+ * the more recently updated is kept.
+ */
+export function mergeCandidates(fromVendor: string, intoVendor: string, store: MemoryStore = getMemoryStore()): void {
+    store.transaction(() => {
+        for (const candidate of getCandidates(fromVendor, store)) {
+            const intoKey = candidateKeyOf(intoVendor, candidate.patternId);
+            const into = store.get<CorrectionCandidate>('candidate', intoKey);
+            if (!into || into.lastUpdated < candidate.lastUpdated) store.put('candidate', intoKey, { ...candidate, vendor: intoVendor });
+            store.delete('candidate', candidateKeyOf(fromVendor, candidate.patternId));
+        }
+    });
+}
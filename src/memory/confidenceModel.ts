@@ -0,0 +1,64 @@
+export type ConfidenceStrategy = "step" | "beta";
+
+export interface ConfidenceModel {
+    /**
+     * "step" uses the stored confidence (+0.1 per approval, -0.2 per rejection);
+     * "beta" uses the mean of Beta(approved + priorApprovals, rejected + priorRejections).
+     */
+    strategy: ConfidenceStrategy;
+    /** Confidence halves every this many days since `lastUpdated`. `null` disables decay. */
+    halfLifeDays: number | null;
+    priorApprovals: number;
+    priorRejections: number;
+    /** Fall back to the global pattern when a vendor has no memory of its own. */
+    globalFallback: boolean;
+}
+
+export const DEFAULT_CONFIDENCE_MODEL: ConfidenceModel = {
+    strategy: "step",
+    halfLifeDays: 180,
+    priorApprovals: 1,
+    priorRejections: 1,
+    globalFallback: true
+};
+
+/** The parts of a memory entry confidence is derived from. */
+export interface ConfidenceEvidence {
+    confidence: number;
+    approvedCount?: number;
+    rejectedCount?: number;
+    lastUpdated?: string;
+}
+
+const DAY_MS = 86400000;
+
+/**
+ * Mean of the beta posterior for the given counts, in 0..1.
+ */
+export function betaScore(approvedCount: number, rejectedCount: number, model: ConfidenceModel = DEFAULT_CONFIDENCE_MODEL): number {
+    const alpha = approvedCount + model.priorApprovals;
+    const beta = rejectedCount + model.priorRejections;
+    return alpha + beta === 0 ? 0 : alpha / (alpha + beta);
+}
+
+/**
+ * Multiplier for a memory last updated at `lastUpdated`: 1 when fresh, 0.5 after one half-life.
+ * Entries without a timestamp do not decay.
+ */
+export function decayFactor(lastUpdated: string | undefined, now: Date, model: ConfidenceModel = DEFAULT_CONFIDENCE_MODEL): number {
+    if (model.halfLifeDays === null || !lastUpdated) return 1;
+    const updatedAt = Date.parse(lastUpdated);
+    if (Number.isNaN(updatedAt)) return 1;
+    const ageDays = Math.max(0, now.getTime() - updatedAt) / DAY_MS;
+    return Math.pow(0.5, ageDays / model.halfLifeDays);
+}
+
+/**
+ * Confidence to act on at time `now`, rounded to two decimals.
+ */
+export function effectiveConfidence(evidence: ConfidenceEvidence, now: Date = new Date(), model: ConfidenceModel = DEFAULT_CONFIDENCE_MODEL): number {
+    const base = model.strategy === "beta"
+        ? betaScore(evidence.approvedCount ?? 0, evidence.rejectedCount ?? 0, model)
+        : evidence.confidence;
+    return Math.round(base * decayFactor(evidence.lastUpdated, now, model) * 100) / 100;
+}
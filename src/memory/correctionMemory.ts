@@ -1,7 +1,4 @@
-import * as fs from 'fs';
-import * as path from 'path';
-
-const MEMORY_FILE = path.resolve(process.cwd(), 'correctionMemory.json');
+import { getMemoryStore, MemoryStore, timestampOf } from './memoryStore';
 
 interface CorrectionData {
     patternId: string;
@@ -11,6 +8,8 @@ interface CorrectionData {
     approvedCount: number;
     rejectedCount: number;
     lastUpdated: string;
+    /** Vendor this entry is scoped to; absent for the global pattern. */
+    vendor?: string;
 }
 
 interface CorrectionMemory {
@@ -18,92 +17,135 @@ interface CorrectionMemory {
 }
 
 /**
- * Loads correction memory from JSON file.
+ * Key a pattern is stored under: `vendorId|patternId` when vendor-scoped.
  */
-export function loadCorrectionMemory(): CorrectionMemory {
-    try {
-        if (!fs.existsSync(MEMORY_FILE)) {
-            return {};
-        }
-        const data = fs.readFileSync(MEMORY_FILE, 'utf-8');
-        return JSON.parse(data) as CorrectionMemory;
-    } catch (error) {
-        console.warn("Failed to load correction memory:", error);
-        return {};
-    }
+export function correctionKeyOf(patternId: string, vendor?: string): string {
+    return vendor ? `${vendor}|${patternId}` : patternId;
 }
 
 /**
- * Saves correction memory to JSON file.
+ * Loads the whole correction memory from the store.
  */
-export function saveCorrectionMemory(memory: CorrectionMemory): void {
-    try {
-        const data = JSON.stringify(memory, null, 2);
-        fs.writeFileSync(MEMORY_FILE, data, 'utf-8');
-    } catch (error) {
-        console.error("Failed to save correction memory:", error);
-    }
+export function loadCorrectionMemory(store: MemoryStore = getMemoryStore()): CorrectionMemory {
+    return store.getAll<CorrectionData>('correction');
+}
+
+/**
+ * Replaces the stored correction memory with the given object.
+ */
+export function saveCorrectionMemory(memory: CorrectionMemory, store: MemoryStore = getMemoryStore()): void {
+    store.transaction(() => {
+        store.clear('correction');
+        for (const [patternId, data] of Object.entries(memory)) {
+            store.put('correction', patternId, data);
+        }
+    });
 }
 
 /**
  * Tracks an approval for a specific correction pattern.
- * Increases confidence and approved count.
+ * Increases confidence and approved count. With a vendor, only that vendor's entry learns.
  */
-export function rememberCorrectionApproval(patternId: string, description: string, action: string): void {
-    const memory = loadCorrectionMemory();
-    const timestamp = new Date().toISOString();
+export function rememberCorrectionApproval(patternId: string, description: string, action: string, store: MemoryStore = getMemoryStore(), vendor?: string): void {
+    const key = correctionKeyOf(patternId, vendor);
+    const existing = store.get<CorrectionData>('correction', key);
+    const timestamp = timestampOf(store);
 
-    if (memory[patternId]) {
+    if (existing) {
         // Existing pattern: Reinforce
-        let newConfidence = memory[patternId].confidence + 0.1;
+        let newConfidence = existing.confidence + 0.1;
         if (newConfidence > 1.0) newConfidence = 1.0;
 
-        memory[patternId].confidence = Math.round(newConfidence * 10) / 10;
-        memory[patternId].approvedCount += 1;
-        memory[patternId].lastUpdated = timestamp;
+        existing.confidence = Math.round(newConfidence * 10) / 10;
+        existing.approvedCount += 1;
+        existing.lastUpdated = timestamp;
         // Update description/action in case they evolved? Keeping original for now unless requested.
+        store.put('correction', key, existing);
     } else {
         // New pattern
-        memory[patternId] = {
+        store.put<CorrectionData>('correction', key, {
             patternId,
             description,
             action,
             confidence: 0.5,
             approvedCount: 1,
             rejectedCount: 0,
-            lastUpdated: timestamp
-        };
+            lastUpdated: timestamp,
+            ...(vendor ? { vendor } : {})
+        });
     }
-
-    saveCorrectionMemory(memory);
 }
 
 /**
  * Tracks a rejection for a specific correction pattern.
  * Decreases confidence and increments rejected count.
  */
-export function rememberCorrectionRejection(patternId: string): void {
-    const memory = loadCorrectionMemory();
-    const timestamp = new Date().toISOString();
+export function rememberCorrectionRejection(patternId: string, store: MemoryStore = getMemoryStore(), vendor?: string): void {
+    const key = correctionKeyOf(patternId, vendor);
+    // A vendor rejecting a global pattern it has no entry for opts out of it from here on
+    const existing = store.get<CorrectionData>('correction', key)
+        ?? (vendor ? seedFromGlobal(patternId, vendor, store) : null);
+    const timestamp = timestampOf(store);
 
-    if (memory[patternId]) {
+    if (existing) {
         // Penalize confidence
-        let newConfidence = memory[patternId].confidence - 0.2;
+        let newConfidence = existing.confidence - 0.2;
         if (newConfidence < 0.0) newConfidence = 0.0;
 
-        memory[patternId].confidence = Math.round(newConfidence * 10) / 10;
-        memory[patternId].rejectedCount += 1;
-        memory[patternId].lastUpdated = timestamp;
+        existing.confidence = Math.round(newConfidence * 10) / 10;
+        existing.rejectedCount += 1;
+        existing.lastUpdated = timestamp;
 
-        saveCorrectionMemory(memory);
+        store.put('correction', key, existing);
     }
     // If pattern doesn't exist, we can't really reject it (nothing to learn from absence here yet)
 }
 
+function seedFromGlobal(patternId: string, vendor: string, store: MemoryStore): CorrectionData | null {
+    const global = store.get<CorrectionData>('correction', patternId);
+    return global ? { ...global, approvedCount: 0, rejectedCount: 0, vendor } : null;
+}
+
 /**
- * Retrieves memory for a specific pattern.
+ * Retrieves memory for a specific pattern, global or scoped to one vendor.
  */
-export function getCorrectionMemory(patternId: string): CorrectionData | null {
-    const memory = loadCorrectionMemory();
-    return memory[patternId] || null;
+export function getCorrectionMemory(patternId: string, store: MemoryStore = getMemoryStore(), vendor?: string): CorrectionData | null {
+    return store.get<CorrectionData>('correction', correctionKeyOf(patternId, vendor));
+}
+
+/**
+ * The vendor's own memory of a pattern, or the global pattern when the vendor has none
+ * and `globalFallback` is set.
+ */
+export function resolveCorrectionMemory(patternId: string, vendor: string, store: MemoryStore = getMemoryStore(), globalFallback: boolean = true): CorrectionData | null {
+    return getCorrectionMemory(patternId, store, vendor) ?? (globalFallback ? getCorrectionMemory(patternId, store) : null);
+}
+
+/**
+ * Deletes a global or vendor-scoped pattern. Returns false if nothing was stored.
+ */
+export function forgetCorrectionMemory(patternId: string, store: MemoryStore = getMemoryStore(), vendor?: string): boolean {
+    return store.delete('correction', correctionKeyOf(patternId, vendor));
+}
+
+/**
+ * Moves every pattern scoped to `fromVendor` onto `intoVendor`. Where both have
+ * the pattern, counts are added and the higher confidence is kept.
+ */
+export function mergeCorrectionMemory(fromVendor: string, intoVendor: string, store: MemoryStore = getMemoryStore()): void {
+    store.transaction(() => {
+        for (const [key, from] of Object.entries(loadCorrectionMemory(store))) {
+            if (from.vendor !== fromVendor) continue;
+            const intoKey = correctionKeyOf(from.patternId, intoVendor);
+            const into = store.get<CorrectionData>('correction', intoKey);
+            store.put<CorrectionData>('correction', intoKey, into ? {
+                ...into,
+                confidence: Math.max(into.confidence, from.confidence),
+                approvedCount: into.approvedCount + from.approvedCount,
+                rejectedCount: into.rejectedCount + from.rejectedCount,
+                lastUpdated: into.lastUpdated > from.lastUpdated ? into.lastUpdated : from.lastUpdated
+            } : { ...from, vendor: intoVendor });
+            store.delete('correction', key);
+        }
+    });
 }
@@ -1,74 +1,92 @@
-import * as fs from 'fs';
-import * as path from 'path';
+import { getMemoryStore, MemoryStore, timestampOf } from './memoryStore';
 
-const MEMORY_FILE = path.resolve(process.cwd(), 'duplicateMemory.json');
-
-interface DuplicateEntry {
+export interface DuplicateEntry {
     duplicateKey: string;
     vendor: string;
     invoiceNumber: string;
     invoiceDate: string;
     firstSeenAt: string;
     seenCount: number;
+    // Fingerprint for fuzzy matching; absent on entries recorded by older versions
+    invoiceId?: string;
+    normalizedVendor?: string;
+    normalizedInvoiceNumber?: string;
+    totalAmount?: number;
+    lineFingerprints?: string[];
+}
+
+/** Keys of the invoices recorded under one vendor name, so a check only reads those of similar vendors. */
+export interface DuplicateIndexEntry {
+    vendor: string;
+    normalizedVendor?: string;
+    duplicateKeys: string[];
 }
 
 interface DuplicateMemory {
     [duplicateKey: string]: DuplicateEntry;
 }
 
+export type InvoiceFingerprint = Required<Pick<DuplicateEntry, 'invoiceId' | 'normalizedVendor' | 'normalizedInvoiceNumber' | 'totalAmount' | 'lineFingerprints'>>;
+
+function duplicateKeyOf(vendor: string, invoiceNumber: string, invoiceDate: string): string {
+    return `${vendor}|${invoiceNumber}|${invoiceDate}`;
+}
+
 /**
- * Loads duplicate memory from JSON file.
+ * Loads the whole duplicate memory from the store.
  */
-export function loadDuplicateMemory(): DuplicateMemory {
-    try {
-        if (!fs.existsSync(MEMORY_FILE)) {
-            return {};
-        }
-        const data = fs.readFileSync(MEMORY_FILE, 'utf-8');
-        return JSON.parse(data) as DuplicateMemory;
-    } catch (error) {
-        console.warn("Failed to load duplicate memory:", error);
-        return {};
-    }
+export function loadDuplicateMemory(store: MemoryStore = getMemoryStore()): DuplicateMemory {
+    return store.getAll<DuplicateEntry>('duplicate');
 }
 
 /**
- * Saves duplicate memory to JSON file.
+ * Replaces the stored duplicate memory with the given object.
  */
-export function saveDuplicateMemory(memory: DuplicateMemory): void {
-    try {
-        const data = JSON.stringify(memory, null, 2);
-        fs.writeFileSync(MEMORY_FILE, data, 'utf-8');
-    } catch (error) {
-        console.error("Failed to save duplicate memory:", error);
-    }
+export function saveDuplicateMemory(memory: DuplicateMemory, store: MemoryStore = getMemoryStore()): void {
+    store.transaction(() => {
+        store.clear('duplicate');
+        for (const [duplicateKey, entry] of Object.entries(memory)) {
+            store.put('duplicate', duplicateKey, entry);
+        }
+        reindexDuplicates(store);
+    });
 }
 
 /**
  * Checks if an invoice is a duplicate and records it.
  * Returns { isDuplicate: boolean, seenCount: number }
  */
-export function checkAndRecordInvoice(vendor: string, invoiceNumber: string, invoiceDate: string): { isDuplicate: boolean, seenCount: number } {
-    const memory = loadDuplicateMemory();
-    const duplicateKey = `${vendor}|${invoiceNumber}|${invoiceDate}`;
-    const timestamp = new Date().toISOString();
+export function checkAndRecordInvoice(
+    vendor: string,
+    invoiceNumber: string,
+    invoiceDate: string,
+    store: MemoryStore = getMemoryStore(),
+    fingerprint?: InvoiceFingerprint
+): { isDuplicate: boolean, seenCount: number } {
+    const duplicateKey = duplicateKeyOf(vendor, invoiceNumber, invoiceDate);
+    const existing = store.get<DuplicateEntry>('duplicate', duplicateKey);
+    const timestamp = timestampOf(store);
 
-    if (memory[duplicateKey]) {
+    if (existing) {
         // Duplicate found
-        memory[duplicateKey].seenCount += 1;
-        saveDuplicateMemory(memory);
-        return { isDuplicate: true, seenCount: memory[duplicateKey].seenCount };
+        existing.seenCount += 1;
+        store.put('duplicate', duplicateKey, existing);
+        return { isDuplicate: true, seenCount: existing.seenCount };
     } else {
         // New Invoice
-        memory[duplicateKey] = {
+        const entry: DuplicateEntry = {
             duplicateKey,
             vendor,
             invoiceNumber,
             invoiceDate,
             firstSeenAt: timestamp,
-            seenCount: 1
+            seenCount: 1,
+            ...fingerprint
         };
-        saveDuplicateMemory(memory);
+        store.transaction(() => {
+            store.put<DuplicateEntry>('duplicate', duplicateKey, entry);
+            indexDuplicate(entry, store);
+        });
         return { isDuplicate: false, seenCount: 1 };
     }
 }
@@ -76,8 +94,86 @@ export function checkAndRecordInvoice(vendor: string, invoiceNumber: string, inv
 /**
  * Read-only check for duplication.
  */
-export function isDuplicateInvoice(vendor: string, invoiceNumber: string, invoiceDate: string): boolean {
-    const memory = loadDuplicateMemory();
-    const duplicateKey = `${vendor}|${invoiceNumber}|${invoiceDate}`;
-    return !!memory[duplicateKey];
+export function isDuplicateInvoice(vendor: string, invoiceNumber: string, invoiceDate: string, store: MemoryStore = getMemoryStore()): boolean {
+    return store.get<DuplicateEntry>('duplicate', duplicateKeyOf(vendor, invoiceNumber, invoiceDate)) !== null;
+}
+
+/**
+ * Returns the entry recorded under the exact vendor|invoiceNumber|invoiceDate key.
+ */
+export function getDuplicateEntry(vendor: string, invoiceNumber: string, invoiceDate: string, store: MemoryStore = getMemoryStore()): DuplicateEntry | null {
+    return store.get<DuplicateEntry>('duplicate', duplicateKeyOf(vendor, invoiceNumber, invoiceDate));
+}
+
+/**
+ * All recorded invoices, for fuzzy comparison against a new one.
+ */
+export function listRecordedInvoices(store: MemoryStore = getMemoryStore()): DuplicateEntry[] {
+    return Object.values(store.getAll<DuplicateEntry>('duplicate'));
+}
+
+/**
+ * Re-keys the invoices recorded for `fromVendor` under `intoVendor`, so that
+ * a re-submission under the other spelling is still caught.
+ */
+export function mergeDuplicateVendor(fromVendor: string, intoVendor: string, store: MemoryStore = getMemoryStore()): void {
+    store.transaction(() => {
+        for (const entry of listRecordedInvoices(store)) {
+            if (entry.vendor !== fromVendor) continue;
+            const duplicateKey = duplicateKeyOf(intoVendor, entry.invoiceNumber, entry.invoiceDate);
+            const existing = store.get<DuplicateEntry>('duplicate', duplicateKey);
+            store.put<DuplicateEntry>('duplicate', duplicateKey, existing
+                ? { ...existing, seenCount: existing.seenCount + entry.seenCount }
+                : { ...entry, duplicateKey, vendor: intoVendor, normalizedVendor: undefined });
+            store.delete('duplicate', entry.duplicateKey);
+        }
+        reindexDuplicates(store);
+    });
+}
+
+/**
+ * The duplicate index, one entry per vendor name. An empty index is rebuilt
+ * first, e.g. for memory recorded before the index existed.
+ */
+export function loadDuplicateIndex(store: MemoryStore = getMemoryStore()): DuplicateIndexEntry[] {
+    const index = Object.values(store.getAll<DuplicateIndexEntry>('duplicateIndex'));
+    return index.length > 0 ? index : reindexDuplicates(store);
+}
+
+/**
+ * Rebuilds the duplicate index from the recorded invoices, after they were
+ * written other than through this module (e.g. by a bundle import).
+ */
+export function reindexDuplicates(store: MemoryStore = getMemoryStore()): DuplicateIndexEntry[] {
+    const index = new Map<string, DuplicateIndexEntry>();
+    for (const entry of listRecordedInvoices(store)) {
+        let indexed = index.get(entry.vendor);
+        if (!indexed) index.set(entry.vendor, indexed = { vendor: entry.vendor, duplicateKeys: [] });
+        if (entry.normalizedVendor) indexed.normalizedVendor ??= entry.normalizedVendor;
+        indexed.duplicateKeys.push(entry.duplicateKey);
+    }
+    const current = store.getAll<DuplicateIndexEntry>('duplicateIndex');
+    if (index.size > 0 || Object.keys(current).length > 0) {
+        store.transaction(() => {
+            store.clear('duplicateIndex');
+            for (const indexed of index.values()) store.put('duplicateIndex', indexed.vendor, indexed);
+        });
+    }
+    return [...index.values()];
+}
+
+function indexDuplicate(entry: DuplicateEntry, store: MemoryStore): void {
+    const indexed = store.get<DuplicateIndexEntry>('duplicateIndex', entry.vendor);
+    if (!indexed) {
+        // The first entry of an index that is still empty brings in everything recorded before
+        if (Object.keys(store.getAll('duplicateIndex')).length === 0) {
+            reindexDuplicates(store);
+            return;
+        }
+        store.put<DuplicateIndexEntry>('duplicateIndex', entry.vendor, { vendor: entry.vendor, ...(entry.normalizedVendor ? { normalizedVendor: entry.normalizedVendor } : {}), duplicateKeys: [entry.duplicateKey] });
+        return;
+    }
+    if (entry.normalizedVendor) indexed.normalizedVendor ??= entry.normalizedVendor;
+    indexed.duplicateKeys.push(entry.duplicateKey);
+    store.put('duplicateIndex', entry.vendor, indexed);
 }
@@ -0,0 +1,285 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MemoryCollection, MemoryStore, MEMORY_COLLECTIONS } from './memoryStore';
+
+type CollectionData = Record<string, unknown>;
+
+export interface JsonFileStoreOptions {
+    /**
+     * Log size in bytes after which logged commits are folded into the collection
+     * files. The log may also grow to the size of those files, so a large memory is
+     * not rewritten on every few commits.
+     */
+    compactAfterBytes: number;
+}
+
+export const DEFAULT_JSON_FILE_STORE_OPTIONS: JsonFileStoreOptions = {
+    compactAfterBytes: 1024 * 1024
+};
+
+/** One line of the log: every entry a transaction left changed, `deleted` or with its new value. */
+interface LogLine {
+    changes: Array<{ collection: MemoryCollection; key: string; value?: unknown; deleted?: true }>;
+}
+
+const LOG_FILE = 'memoryLog.ndjson';
+
+// Stores with logged commits, folded into their files when the process exits
+const uncompacted = new Set<JsonFileMemoryStore>();
+let exitHook = false;
+
+/**
+ * Memory store backed by one JSON file per collection (e.g. `vendorMemory.json`).
+ *
+ * Files are read once and cached. A committed transaction is appended to a log
+ * (`memoryLog.ndjson`) as one line holding the entries it changed, so a commit
+ * costs what it changed rather than the size of the collections. Logged commits
+ * are folded into the collection files (temp file, then rename) once the log
+ * outgrows `compactAfterBytes`, on `close()` and when the process exits. Loading
+ * replays the log over the files; a line cut short by a crash is dropped, and
+ * replaying a line that was already folded in changes nothing.
+ */
+export class JsonFileMemoryStore implements MemoryStore {
+    private readonly cache = new Map<MemoryCollection, CollectionData>();
+    /** Logged changes not yet in the collection files; `undefined` for deleted entries. */
+    private logged: Map<MemoryCollection, Map<string, unknown>> | null = null;
+    /** Entries as they were before the open transaction first changed them; `undefined` for absent ones. */
+    private undo: Map<MemoryCollection, Map<string, unknown>> | null = null;
+    private logBytes = 0;
+    private fileBytes = 0;
+    private depth = 0;
+    private readonly options: JsonFileStoreOptions;
+
+    constructor(private readonly directory: string = process.cwd(), options: Partial<JsonFileStoreOptions> = {}) {
+        this.options = { ...DEFAULT_JSON_FILE_STORE_OPTIONS, ...options };
+    }
+
+    get<T>(collection: MemoryCollection, key: string): T | null {
+        const data = this.load(collection);
+        return key in data ? structuredClone(data[key] as T) : null;
+    }
+
+    getAll<T>(collection: MemoryCollection): Record<string, T> {
+        return structuredClone(this.load(collection)) as Record<string, T>;
+    }
+
+    put<T>(collection: MemoryCollection, key: string, value: T): void {
+        this.write(collection, [key], data => {
+            data[key] = structuredClone(value);
+        });
+    }
+
+    delete(collection: MemoryCollection, key: string): boolean {
+        if (!(key in this.load(collection))) return false;
+        this.write(collection, [key], data => {
+            delete data[key];
+        });
+        return true;
+    }
+
+    clear(collection?: MemoryCollection): void {
+        const targets = collection ? [collection] : MEMORY_COLLECTIONS;
+        this.transaction(() => {
+            for (const target of targets) {
+                this.write(target, Object.keys(this.load(target)), data => {
+                    for (const key of Object.keys(data)) delete data[key];
+                });
+            }
+        });
+    }
+
+    transaction<R>(work: () => R): R {
+        if (this.depth === 0) this.undo = new Map();
+        this.depth++;
+        try {
+            const result = work();
+            if (this.depth === 1) this.commit();
+            return result;
+        } catch (error) {
+            if (this.depth === 1) this.rollback();
+            throw error;
+        } finally {
+            this.depth--;
+            if (this.depth === 0) this.undo = null;
+        }
+    }
+
+    /**
+     * Folds logged commits into the collection files and empties the log.
+     */
+    compact(): void {
+        const logged = this.readLog();
+        if (logged.size === 0) return;
+        const staged: Array<{ tmp: string; target: string }> = [];
+        try {
+            for (const collection of logged.keys()) {
+                const target = this.filePath(collection);
+                const tmp = `${target}.${process.pid}.tmp`;
+                fs.writeFileSync(tmp, JSON.stringify(this.load(collection), null, 2), 'utf-8');
+                staged.push({ tmp, target });
+            }
+        } catch (error) {
+            staged.forEach(s => fs.rmSync(s.tmp, { force: true }));
+            throw error;
+        }
+        staged.forEach(s => fs.renameSync(s.tmp, s.target));
+        // Only once every file holds the changes; until then the log replays them again
+        fs.rmSync(this.logPath(), { force: true });
+        logged.clear();
+        this.logBytes = 0;
+        this.fileBytes = this.sizeOfFiles();
+        uncompacted.delete(this);
+    }
+
+    close(): void {
+        this.compact();
+        this.cache.clear();
+        this.logged = null;
+    }
+
+    private filePath(collection: MemoryCollection): string {
+        return path.resolve(this.directory, `${collection}Memory.json`);
+    }
+
+    private logPath(): string {
+        return path.resolve(this.directory, LOG_FILE);
+    }
+
+    private load(collection: MemoryCollection): CollectionData {
+        let data = this.cache.get(collection);
+        if (data) return data;
+        data = {};
+        try {
+            const file = this.filePath(collection);
+            if (fs.existsSync(file)) {
+                data = JSON.parse(fs.readFileSync(file, 'utf-8')) as CollectionData;
+            }
+        } catch (error) {
+            console.warn(`Failed to load ${collection} memory:`, error);
+        }
+        for (const [key, value] of this.readLog().get(collection) ?? []) {
+            if (value === undefined) delete data[key];
+            else data[key] = value;
+        }
+        this.cache.set(collection, data);
+        return data;
+    }
+
+    /**
+     * Changes logged since the last compaction, read from the log file on first use.
+     * A last line without its newline was cut short and is truncated away, so the
+     * next commit starts on a line of its own.
+     */
+    private readLog(): Map<MemoryCollection, Map<string, unknown>> {
+        if (this.logged) return this.logged;
+        const logged = new Map<MemoryCollection, Map<string, unknown>>();
+        const file = this.logPath();
+        let bytes = 0;
+        if (fs.existsSync(file)) {
+            const content = fs.readFileSync(file, 'utf-8');
+            for (const line of content.split('\n').slice(0, -1)) {
+                let parsed: LogLine;
+                try {
+                    parsed = JSON.parse(line) as LogLine;
+                } catch {
+                    break;
+                }
+                this.remember(logged, parsed);
+                bytes += Buffer.byteLength(line, 'utf-8') + 1;
+            }
+            if (bytes < Buffer.byteLength(content, 'utf-8')) {
+                console.warn(`Dropping an incomplete commit from ${file}`);
+                fs.truncateSync(file, bytes);
+            }
+        }
+        this.logged = logged;
+        this.logBytes = bytes;
+        this.fileBytes = this.sizeOfFiles();
+        if (logged.size > 0) this.track();
+        return logged;
+    }
+
+    private remember(logged: Map<MemoryCollection, Map<string, unknown>>, line: LogLine): void {
+        for (const change of line.changes) {
+            let entries = logged.get(change.collection);
+            if (!entries) logged.set(change.collection, entries = new Map());
+            entries.set(change.key, change.deleted ? undefined : change.value);
+        }
+    }
+
+    private write(collection: MemoryCollection, keys: string[], mutate: (data: CollectionData) => void): void {
+        this.transaction(() => {
+            const data = this.load(collection);
+            let before = this.undo!.get(collection);
+            if (!before) this.undo!.set(collection, before = new Map());
+            for (const key of keys) {
+                // Entries are replaced, never changed in place, so keeping the old object is enough
+                if (!before.has(key)) before.set(key, data[key]);
+            }
+            mutate(data);
+        });
+    }
+
+    private rollback(): void {
+        for (const [collection, before] of this.undo ?? []) {
+            const data = this.load(collection);
+            for (const [key, value] of before) {
+                if (value === undefined) delete data[key];
+                else data[key] = value;
+            }
+        }
+    }
+
+    private commit(): void {
+        const line: LogLine = { changes: [] };
+        for (const [collection, before] of this.undo ?? []) {
+            const data = this.load(collection);
+            for (const key of before.keys()) {
+                line.changes.push(key in data ? { collection, key, value: data[key] } : { collection, key, deleted: true });
+            }
+        }
+        if (line.changes.length === 0) return;
+
+        const logged = this.readLog();
+        const text = `${JSON.stringify(line)}\n`;
+        try {
+            fs.appendFileSync(this.logPath(), text, 'utf-8');
+        } catch (error) {
+            // Read the log again before the next commit, dropping whatever part of this line made it
+            this.logged = null;
+            throw error;
+        }
+        this.remember(logged, line);
+        this.logBytes += Buffer.byteLength(text, 'utf-8');
+        this.track();
+        if (this.logBytes >= Math.max(this.options.compactAfterBytes, this.fileBytes)) {
+            try {
+                this.compact();
+            } catch (error) {
+                // The commit is safe in the log; compaction is tried again later
+                console.warn('Failed to compact memory files:', error);
+            }
+        }
+    }
+
+    private sizeOfFiles(): number {
+        return MEMORY_COLLECTIONS
+            .map(c => this.filePath(c))
+            .reduce((sum, file) => sum + (fs.existsSync(file) ? fs.statSync(file).size : 0), 0);
+    }
+
+    private track(): void {
+        uncompacted.add(this);
+        if (exitHook) return;
+        exitHook = true;
+        process.once('exit', () => {
+            for (const store of uncompacted) {
+                try {
+                    store.compact();
+                } catch (error) {
+                    console.warn('Failed to compact memory files:', error);
+                }
+            }
+        });
+    }
+}
@@ -0,0 +1,52 @@
+import { MemoryCollection, MemoryStore } from './memoryStore';
+
+/** Collections a tenant may inherit from a shared baseline: learned knowledge, not working state. */
+export const BASELINE_COLLECTIONS: MemoryCollection[] = ['vendor', 'correction', 'resolution', 'vendorIdentity', 'candidate'];
+
+/**
+ * Store that reads through to a shared baseline and writes only to its own store.
+ *
+ * For baseline collections, an entry the own store lacks is read from the baseline.
+ * Learning on top of a baseline entry writes the updated copy to the own store, so
+ * the override never touches the baseline. Deleting an override makes the baseline
+ * entry visible again. The baseline is not closed with this store.
+ */
+export class LayeredMemoryStore implements MemoryStore {
+    constructor(
+        readonly own: MemoryStore,
+        readonly baseline: MemoryStore,
+        private readonly layered: MemoryCollection[] = BASELINE_COLLECTIONS
+    ) {}
+
+    get<T>(collection: MemoryCollection, key: string): T | null {
+        const entry = this.own.get<T>(collection, key);
+        if (entry !== null || !this.layered.includes(collection)) return entry;
+        return this.baseline.get<T>(collection, key);
+    }
+
+    getAll<T>(collection: MemoryCollection): Record<string, T> {
+        const own = this.own.getAll<T>(collection);
+        if (!this.layered.includes(collection)) return own;
+        return { ...this.baseline.getAll<T>(collection), ...own };
+    }
+
+    put<T>(collection: MemoryCollection, key: string, value: T): void {
+        this.own.put(collection, key, value);
+    }
+
+    delete(collection: MemoryCollection, key: string): boolean {
+        return this.own.delete(collection, key);
+    }
+
+    clear(collection?: MemoryCollection): void {
+        this.own.clear(collection);
+    }
+
+    transaction<R>(work: () => R): R {
+        return this.own.transaction(work);
+    }
+
+    close(): void {
+        this.own.close();
+    }
+}
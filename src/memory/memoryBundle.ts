@@ -0,0 +1,268 @@
+import { reindexDuplicates } from './duplicateMemory';
+import { MemoryCollection, MemoryStore, MEMORY_COLLECTIONS } from './memoryStore';
+
+// --- Versioned memory bundles for moving learned memory between environments ---
+
+export const BUNDLE_FORMAT = "flowbit-memory-bundle";
+export const BUNDLE_VERSION = 1;
+
+/** Collections exported by default. The review queue is working state, not knowledge. */
+export const BUNDLE_COLLECTIONS: MemoryCollection[] = ['vendor', 'correction', 'resolution', 'duplicate', 'vendorIdentity', 'candidate'];
+
+export interface MemoryBundle {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;
+    /** Where the memory was learned, e.g. "staging". */
+    source?: string;
+    description?: string;
+    /** Entries per collection. */
+    counts: Partial<Record<MemoryCollection, number>>;
+    collections: Partial<Record<MemoryCollection, Record<string, unknown>>>;
+}
+
+/**
+ * - `replace`: bundle collections replace the stored ones, including removals.
+ * - `merge-max-confidence`: per entry (per attribute for vendor profiles), the more confident side wins.
+ * - `merge-sum-counts`: approval and rejection counts are added up.
+ */
+export type ImportMode = "replace" | "merge-max-confidence" | "merge-sum-counts";
+
+export const IMPORT_MODES: ImportMode[] = ["replace", "merge-max-confidence", "merge-sum-counts"];
+
+export interface ImportOptions {
+    mode?: ImportMode;
+    /** Report what would change without writing anything. */
+    dryRun?: boolean;
+    /** Import only these collections of the bundle. */
+    collections?: MemoryCollection[];
+}
+
+export type EntryChange = "add" | "update" | "remove" | "unchanged";
+
+export interface ImportChange {
+    collection: MemoryCollection;
+    key: string;
+    change: Exclude<EntryChange, "unchanged">;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface ImportReport {
+    mode: ImportMode;
+    dryRun: boolean;
+    source?: string;
+    exportedAt: string;
+    /** Entries that were (or would be) added, updated or removed. */
+    changes: ImportChange[];
+    summary: Partial<Record<MemoryCollection, Record<EntryChange, number>>>;
+}
+
+/** Confidence and counts shared by correction entries and vendor profile attributes. */
+interface Evidence {
+    value?: unknown;
+    confidence: number;
+    approvedCount: number;
+    rejectedCount: number;
+    lastUpdated?: string;
+}
+
+type Entry = Record<string, unknown>;
+
+function assertBundleCollection(collection: MemoryCollection): void {
+    if (!BUNDLE_COLLECTIONS.includes(collection)) {
+        throw new Error(`Memory collection '${collection}' is not carried in bundles; they hold ${BUNDLE_COLLECTIONS.join(', ')}`);
+    }
+}
+
+/**
+ * Writes the given collections (BUNDLE_COLLECTIONS by default) into a bundle.
+ */
+export function exportMemoryBundle(store: MemoryStore, options: { collections?: MemoryCollection[]; source?: string; description?: string; now?: Date } = {}): MemoryBundle {
+    const bundle: MemoryBundle = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: (options.now ?? new Date()).toISOString(),
+        ...(options.source ? { source: options.source } : {}),
+        ...(options.description ? { description: options.description } : {}),
+        counts: {},
+        collections: {}
+    };
+    for (const collection of options.collections ?? BUNDLE_COLLECTIONS) {
+        assertBundleCollection(collection);
+        const entries = store.getAll(collection);
+        bundle.collections[collection] = entries;
+        bundle.counts[collection] = Object.keys(entries).length;
+    }
+    return bundle;
+}
+
+function isObject(value: unknown): value is Entry {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a parsed bundle. Plain `{ collection: { key: entry } }` dumps, as written
+ * by earlier versions of `memory export`, are accepted as unversioned bundles.
+ * Collections outside BUNDLE_COLLECTIONS, such as the append-only event and audit
+ * logs, are rejected before anything is written.
+ */
+export function parseMemoryBundle(input: unknown): MemoryBundle {
+    if (!isObject(input)) throw new Error("Memory bundle must be a JSON object");
+    const isLegacyDump = input.format === undefined && Object.keys(input).every(key => (MEMORY_COLLECTIONS as string[]).includes(key));
+    if (!isLegacyDump) {
+        if (input.format !== BUNDLE_FORMAT) throw new Error(`Not a memory bundle (format '${String(input.format)}')`);
+        if (typeof input.version !== 'number' || input.version > BUNDLE_VERSION) {
+            throw new Error(`Unsupported memory bundle version ${String(input.version)}; this agent reads up to ${BUNDLE_VERSION}`);
+        }
+    }
+    const source = isLegacyDump ? input : input.collections;
+    if (!isObject(source)) throw new Error("Memory bundle has no collections");
+
+    const collections: MemoryBundle['collections'] = {};
+    const counts: MemoryBundle['counts'] = {};
+    for (const [name, entries] of Object.entries(source)) {
+        if (!(MEMORY_COLLECTIONS as string[]).includes(name)) throw new Error(`Unknown memory collection '${name}'`);
+        assertBundleCollection(name as MemoryCollection);
+        if (!isObject(entries)) throw new Error(`Collection '${name}' must map keys to entries`);
+        collections[name as MemoryCollection] = entries;
+        counts[name as MemoryCollection] = Object.keys(entries).length;
+    }
+    return isLegacyDump
+        ? { format: BUNDLE_FORMAT, version: 0, exportedAt: "", counts, collections }
+        : { ...(input as unknown as MemoryBundle), counts, collections };
+}
+
+function newer(a?: string, b?: string): string | undefined {
+    return [a, b].filter((t): t is string => !!t).sort().pop();
+}
+
+/**
+ * Combines two pieces of evidence. Counts are only summed when both sides
+ * hold the same value; the combined confidence is weighted by evidence.
+ */
+function mergeEvidence<T extends Evidence>(existing: T, incoming: T, mode: ImportMode): T {
+    const sameValue = JSON.stringify(existing.value) === JSON.stringify(incoming.value);
+    if (mode === "merge-sum-counts" && sameValue) {
+        const weightOf = (e: Evidence) => Math.max(1, e.approvedCount + e.rejectedCount);
+        const weight = weightOf(existing) + weightOf(incoming);
+        const confidence = (existing.confidence * weightOf(existing) + incoming.confidence * weightOf(incoming)) / weight;
+        return {
+            ...existing,
+            confidence: Math.round(confidence * 10) / 10,
+            approvedCount: existing.approvedCount + incoming.approvedCount,
+            rejectedCount: existing.rejectedCount + incoming.rejectedCount,
+            lastUpdated: newer(existing.lastUpdated, incoming.lastUpdated)
+        };
+    }
+    return incoming.confidence > existing.confidence ? incoming : existing;
+}
+
+function mergeEvidenceMap(existing: unknown, incoming: unknown, mode: ImportMode): Record<string, Evidence> {
+    const merged: Record<string, Evidence> = { ...(isObject(existing) ? existing as Record<string, Evidence> : {}) };
+    for (const [key, value] of Object.entries(isObject(incoming) ? incoming as Record<string, Evidence> : {})) {
+        merged[key] = merged[key] ? mergeEvidence(merged[key], value, mode) : value;
+    }
+    return merged;
+}
+
+/**
+ * One entry from the store and one from the bundle, merged the way the collection calls for.
+ */
+function mergeEntry(collection: MemoryCollection, existing: Entry, incoming: Entry, mode: ImportMode): Entry {
+    const sum = mode === "merge-sum-counts";
+    switch (collection) {
+        case 'vendor':
+            if (!('attributes' in existing) || !('attributes' in incoming)) return incoming;
+            return {
+                ...existing,
+                attributes: mergeEvidenceMap(existing.attributes, incoming.attributes, mode),
+                skuMappings: mergeEvidenceMap(existing.skuMappings, incoming.skuMappings, mode),
+                fieldLabels: mergeEvidenceMap(existing.fieldLabels, incoming.fieldLabels, mode)
+            };
+        case 'correction':
+            return mergeEvidence(existing as unknown as Evidence, incoming as unknown as Evidence, mode) as unknown as Entry;
+        case 'resolution':
+        case 'candidate': {
+            const count = (key: 'approvedCount' | 'rejectedCount') => sum
+                ? Number(existing[key]) + Number(incoming[key])
+                : Math.max(Number(existing[key]), Number(incoming[key]));
+            const latest = String(incoming.lastUpdated) > String(existing.lastUpdated) ? incoming : existing;
+            return { ...latest, approvedCount: count('approvedCount'), rejectedCount: count('rejectedCount') };
+        }
+        case 'duplicate': {
+            const seenCount = sum
+                ? Number(existing.seenCount) + Number(incoming.seenCount)
+                : Math.max(Number(existing.seenCount), Number(incoming.seenCount));
+            const firstSeenAt = [existing.firstSeenAt, incoming.firstSeenAt].map(String).sort()[0];
+            return { ...incoming, ...existing, seenCount, firstSeenAt };
+        }
+        case 'vendorIdentity': {
+            const union = (key: string) => [...new Set([...(existing[key] as string[] ?? []), ...(incoming[key] as string[] ?? [])])];
+            return { ...incoming, ...existing, aliases: union('aliases'), vatIds: union('vatIds'), ibans: union('ibans') };
+        }
+        default:
+            // Working state such as review items: keep what this environment has
+            return existing;
+    }
+}
+
+/**
+ * Applies a bundle to the store, or with `dryRun` only reports what would change.
+ * Everything is written in one transaction.
+ */
+export function importMemoryBundle(bundle: MemoryBundle, store: MemoryStore, options: ImportOptions = {}): ImportReport {
+    const mode = options.mode ?? "merge-max-confidence";
+    const dryRun = options.dryRun ?? false;
+    const report: ImportReport = {
+        mode,
+        dryRun,
+        ...(bundle.source ? { source: bundle.source } : {}),
+        exportedAt: bundle.exportedAt,
+        changes: [],
+        summary: {}
+    };
+
+    store.transaction(() => {
+        for (const [name, entries] of Object.entries(bundle.collections)) {
+            const collection = name as MemoryCollection;
+            if (options.collections && !options.collections.includes(collection)) continue;
+            const summary: Record<EntryChange, number> = { add: 0, update: 0, remove: 0, unchanged: 0 };
+            report.summary[collection] = summary;
+            const current = store.getAll<Entry>(collection);
+            const record = (key: string, before: Entry | undefined, after: Entry | undefined) => {
+                const change: EntryChange = !before ? "add" : !after ? "remove" : JSON.stringify(before) === JSON.stringify(after) ? "unchanged" : "update";
+                summary[change]++;
+                if (change === "unchanged") return;
+                report.changes.push({ collection, key, change, ...(before ? { before } : {}), ...(after ? { after } : {}) });
+                if (dryRun) return;
+                if (after) store.put(collection, key, after);
+                else store.delete(collection, key);
+            };
+
+            for (const [key, value] of Object.entries(entries ?? {})) {
+                const incoming = value as Entry;
+                const existing = current[key];
+                const after = !existing || mode === "replace" ? incoming : mergeEntry(collection, existing, incoming, mode);
+                record(key, existing, after);
+            }
+            if (mode === "replace") {
+                for (const key of Object.keys(current)) {
+                    if (!(key in (entries ?? {}))) record(key, current[key], undefined);
+                }
+            }
+            if (collection === 'duplicate' && !dryRun && summary.add + summary.update + summary.remove > 0) {
+                reindexDuplicates(store);
+            }
+        }
+    });
+    return report;
+}
+
+/**
+ * One line per collection, e.g. "vendor: 2 added, 1 updated, 0 removed, 5 unchanged".
+ */
+export function formatImportSummary(report: ImportReport): string[] {
+    return Object.entries(report.summary).map(([collection, s]) =>
+        `${collection}: ${s.add} added, ${s.update} updated, ${s.remove} removed, ${s.unchanged} unchanged`);
+}
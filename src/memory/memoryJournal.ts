@@ -0,0 +1,429 @@
+import { ImportChange } from './memoryBundle';
+import { MemoryCollection, MemoryStore, MEMORY_COLLECTIONS } from './memoryStore';
+
+// --- Append-only log of memory mutations ---
+
+/** Collection the journal appends to. It is never written through the journal itself. */
+export const EVENT_COLLECTION: MemoryCollection = 'event';
+
+/**
+ * Collections whose mutations are journaled. The audit log is a record of its own, and
+ * the review queue is working state that embeds whole results.
+ */
+export const JOURNALED_COLLECTIONS: MemoryCollection[] = MEMORY_COLLECTIONS.filter(c => c !== EVENT_COLLECTION && c !== 'audit' && c !== 'review');
+
+/**
+ * What caused a mutation:
+ * - `correction`: a replayed human correction, `id` is its correction ID
+ * - `review`: a review queue decision, `id` is `<reviewId>/<proposalId>`
+ * - `simulated-feedback`: feedback simulated while processing, `id` is the invoice ID
+ * - `system`: the agent itself, e.g. recording an auto-approved invoice
+ * - `import`, `rollback`, `manual`: memory maintenance
+ * - `baseline`: an entry that existed before the journal started
+ */
+export type MemoryEventSourceType =
+    | "correction" | "review" | "simulated-feedback" | "system" | "import" | "rollback" | "manual" | "baseline";
+
+export interface MemoryEventSource {
+    type: MemoryEventSourceType;
+    id?: string;
+    /** Reviewer or operator, when known. */
+    actor?: string;
+}
+
+/**
+ * One changed field of an updated entry, at `path` from the entry's root:
+ * - set to `after`, with the old value as `before` when it was a scalar
+ * - `removed`, with the old value as `before` when it was a scalar
+ * - an array that kept its order and gained `appended` at the end, after `dropped`
+ *   items fell off the start (e.g. an attribute history)
+ */
+export interface FieldChange {
+    path: string[];
+    before?: unknown;
+    after?: unknown;
+    removed?: true;
+    dropped?: number;
+    appended?: unknown[];
+}
+
+export interface MemoryEvent {
+    sequence: number;
+    timestamp: string;
+    collection: MemoryCollection;
+    key: string;
+    change: "create" | "update" | "delete";
+    /** The entry as created. */
+    value?: unknown;
+    /** What an update changed. */
+    fields?: FieldChange[];
+    source: MemoryEventSource;
+}
+
+function eventKeyOf(sequence: number): string {
+    // Zero-padded so keys sort in sequence order
+    return String(sequence).padStart(10, '0');
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function scalarOf(value: unknown): { before?: unknown } {
+    return typeof value !== 'object' || value === null ? { before: value } : {};
+}
+
+/**
+ * Items `after` gained at its end, and how many it lost at its start, when it is
+ * otherwise `before` in the same order; null for any other change.
+ */
+function arrayTail(before: unknown[], after: unknown[]): { dropped: number; appended: unknown[] } | null {
+    const a = before.map(item => JSON.stringify(item));
+    const b = after.map(item => JSON.stringify(item));
+    for (let dropped = 0; dropped <= a.length; dropped++) {
+        const kept = a.length - dropped;
+        if (kept <= b.length && a.slice(dropped).every((item, i) => item === b[i])) {
+            return { dropped, appended: after.slice(kept) };
+        }
+    }
+    return null;
+}
+
+/**
+ * Fields that differ between two versions of an entry, descending into objects.
+ */
+function diffFields(before: unknown, after: unknown, path: string[] = [], changes: FieldChange[] = []): FieldChange[] {
+    if (sameValue(before, after)) return changes;
+    if (isRecord(before) && isRecord(after)) {
+        for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+            if (!(field in after)) changes.push({ path: [...path, field], removed: true, ...scalarOf(before[field]) });
+            else if (!(field in before)) changes.push({ path: [...path, field], after: after[field] });
+            else diffFields(before[field], after[field], [...path, field], changes);
+        }
+        return changes;
+    }
+    const tail = Array.isArray(before) && Array.isArray(after) ? arrayTail(before, after) : null;
+    changes.push(tail ? { path, ...tail } : { path, after, ...scalarOf(before) });
+    return changes;
+}
+
+/**
+ * Applies field changes to an entry in place and returns it; a change at the root replaces it.
+ */
+function applyFields(entry: unknown, changes: FieldChange[]): unknown {
+    for (const change of changes) {
+        if (change.path.length === 0) {
+            entry = change.appended ? [...(entry as unknown[]).slice(change.dropped ?? 0), ...change.appended] : structuredClone(change.after);
+            continue;
+        }
+        let parent = entry as Record<string, unknown>;
+        for (const field of change.path.slice(0, -1)) parent = (parent[field] ??= {}) as Record<string, unknown>;
+        const field = change.path[change.path.length - 1];
+        if (change.removed) delete parent[field];
+        else if (change.appended) parent[field] = [...(parent[field] as unknown[]).slice(change.dropped ?? 0), ...structuredClone(change.appended)];
+        else parent[field] = structuredClone(change.after);
+    }
+    return entry;
+}
+
+/**
+ * Store decorator that appends a `MemoryEvent` to the `event` collection for every
+ * put and delete that changes an entry of a journaled collection. Events are written in the same transaction
+ * as the mutation, so a rolled-back transaction leaves no events behind. An update
+ * records only the fields it changed, so the log grows with what was learned, not
+ * with the size of the entries.
+ *
+ * The source recorded with each event is set with `withSource` (or `withMemorySource`)
+ * and defaults to `system`.
+ */
+export class JournaledMemoryStore implements MemoryStore {
+    private source: MemoryEventSource = { type: "system" };
+    private nextSequence: number | null = null;
+
+    constructor(readonly inner: MemoryStore, private readonly clock: () => Date = () => new Date()) {}
+
+    get<T>(collection: MemoryCollection, key: string): T | null {
+        return this.inner.get<T>(collection, key);
+    }
+
+    getAll<T>(collection: MemoryCollection): Record<string, T> {
+        return this.inner.getAll<T>(collection);
+    }
+
+    put<T>(collection: MemoryCollection, key: string, value: T): void {
+        this.guard(collection);
+        if (!JOURNALED_COLLECTIONS.includes(collection)) return this.inner.put(collection, key, value);
+        this.transaction(() => {
+            this.startLog();
+            const before = this.inner.get(collection, key);
+            this.inner.put(collection, key, value);
+            const after: unknown = JSON.parse(JSON.stringify(value));
+            if (before === null) this.append(collection, key, { change: "create", value: after });
+            else if (!sameValue(before, after)) this.append(collection, key, { change: "update", fields: diffFields(before, after) });
+        });
+    }
+
+    delete(collection: MemoryCollection, key: string): boolean {
+        this.guard(collection);
+        if (!JOURNALED_COLLECTIONS.includes(collection)) return this.inner.delete(collection, key);
+        return this.transaction(() => {
+            this.startLog();
+            const before = this.inner.get(collection, key);
+            if (before === null || !this.inner.delete(collection, key)) return false;
+            this.append(collection, key, { change: "delete" });
+            return true;
+        });
+    }
+
+    /** Clears one collection, or every journaled one and the review queue; the event and audit logs are kept. */
+    clear(collection?: MemoryCollection): void {
+        if (collection) this.guard(collection);
+        this.transaction(() => {
+            for (const target of collection ? [collection] : [...JOURNALED_COLLECTIONS, 'review' as const]) {
+                for (const key of Object.keys(this.inner.getAll(target))) this.delete(target, key);
+            }
+        });
+    }
+
+    transaction<R>(work: () => R): R {
+        try {
+            return this.inner.transaction(work);
+        } catch (error) {
+            // The inner store dropped the events; recount on the next write
+            this.nextSequence = null;
+            throw error;
+        }
+    }
+
+    close(): void {
+        this.inner.close();
+    }
+
+    /** The journal's clock, so memory written through it shares the agent's timeline. */
+    now(): Date {
+        return this.clock();
+    }
+
+    /**
+     * Runs `work` with every mutation attributed to `source`. Calls nest; the
+     * innermost source wins.
+     */
+    withSource<R>(source: MemoryEventSource, work: () => R): R {
+        const previous = this.source;
+        this.source = source;
+        try {
+            return work();
+        } finally {
+            this.source = previous;
+        }
+    }
+
+    private guard(collection: MemoryCollection): void {
+        if (collection === EVENT_COLLECTION) throw new Error("The memory event log is append-only");
+    }
+
+    private append(collection: MemoryCollection, key: string, change: Pick<MemoryEvent, 'change' | 'value' | 'fields'>): void {
+        const event: MemoryEvent = {
+            sequence: this.nextSequence!++,
+            timestamp: this.clock().toISOString(),
+            collection,
+            key,
+            ...change,
+            source: this.source
+        };
+        this.inner.put(EVENT_COLLECTION, eventKeyOf(event.sequence), event);
+    }
+
+    /**
+     * Finds the next sequence number. On first use of a store that already holds memory
+     * but no events, existing entries are logged as `baseline` so replay starts complete.
+     */
+    private startLog(): void {
+        if (this.nextSequence !== null) return;
+        const events = Object.values(this.inner.getAll<MemoryEvent>(EVENT_COLLECTION));
+        if (events.length > 0) {
+            this.nextSequence = events.reduce((max, e) => Math.max(max, e.sequence), 0) + 1;
+            return;
+        }
+
+        let sequence = 1;
+        const timestamp = this.clock().toISOString();
+        for (const collection of JOURNALED_COLLECTIONS) {
+            for (const [key, value] of Object.entries(this.inner.getAll(collection))) {
+                const event: MemoryEvent = { sequence, timestamp, collection, key, change: "create", value, source: { type: "baseline" } };
+                this.inner.put(EVENT_COLLECTION, eventKeyOf(sequence++), event);
+            }
+        }
+        this.nextSequence = sequence;
+    }
+}
+
+/**
+ * Wraps a store in a journal unless it already is one.
+ */
+export function journaled(store: MemoryStore, clock?: () => Date): JournaledMemoryStore {
+    return store instanceof JournaledMemoryStore ? store : new JournaledMemoryStore(store, clock);
+}
+
+/**
+ * Attributes the mutations made by `work` to `source` when the store is journaled.
+ */
+export function withMemorySource<R>(store: MemoryStore, source: MemoryEventSource, work: () => R): R {
+    return store instanceof JournaledMemoryStore ? store.withSource(source, work) : work();
+}
+
+// --- Reading and replaying the log ---
+
+export interface MemoryEventFilter {
+    collection?: MemoryCollection;
+    key?: string;
+    /** Only events at or before this ISO timestamp. */
+    until?: string;
+}
+
+/**
+ * Logged events in sequence order.
+ */
+export function readMemoryEvents(store: MemoryStore, filter: MemoryEventFilter = {}): MemoryEvent[] {
+    return Object.values(store.getAll<MemoryEvent>(EVENT_COLLECTION))
+        .filter(e => (!filter.collection || e.collection === filter.collection)
+            && (filter.key === undefined || e.key === filter.key)
+            && (!filter.until || e.timestamp <= filter.until))
+        .sort((a, b) => a.sequence - b.sequence);
+}
+
+export type MemorySnapshot = Partial<Record<MemoryCollection, Record<string, unknown>>>;
+
+/**
+ * Replays events into the memory they describe.
+ */
+export function reconstructMemory(events: MemoryEvent[]): MemorySnapshot {
+    const snapshot: MemorySnapshot = {};
+    for (const event of events) {
+        const entries = snapshot[event.collection] ??= {};
+        if (event.change === "delete") delete entries[event.key];
+        else if (event.change === "create") entries[event.key] = structuredClone(event.value);
+        else if (event.key in entries) entries[event.key] = applyFields(entries[event.key], event.fields ?? []);
+    }
+    return snapshot;
+}
+
+export type RollbackTarget = { timestamp: string } | { correctionId: string };
+
+export interface RollbackReport {
+    /** Human-readable target, e.g. "2025-01-10T09:00:00.000Z" or "correction CORR-7". */
+    target: string;
+    dryRun: boolean;
+    /** Entries that were (or would be) restored, changed back or removed. */
+    changes: ImportChange[];
+}
+
+/**
+ * Restores memory to a point in time: the state at `timestamp`, or the state right
+ * before a correction was first applied. Later learning is undone as well.
+ *
+ * The rollback itself is journaled as new `rollback` events; nothing is removed
+ * from the log. The review queue and the audit log are not journaled and are left alone.
+ */
+export function rollbackMemory(
+    store: MemoryStore,
+    to: RollbackTarget,
+    options: { dryRun?: boolean; collections?: MemoryCollection[] } = {}
+): RollbackReport {
+    const events = readMemoryEvents(store);
+    let kept: MemoryEvent[];
+    let target: string;
+    if ('correctionId' in to) {
+        const first = events.find(e => e.source.type === "correction" && e.source.id === to.correctionId);
+        if (!first) throw new Error(`No memory events for correction '${to.correctionId}'`);
+        kept = events.filter(e => e.sequence < first.sequence);
+        target = `correction ${to.correctionId}`;
+    } else {
+        if (Number.isNaN(Date.parse(to.timestamp))) throw new Error(`Invalid timestamp '${to.timestamp}'`);
+        const until = new Date(to.timestamp).toISOString();
+        kept = events.filter(e => e.timestamp <= until);
+        target = until;
+    }
+
+    const dryRun = options.dryRun ?? false;
+    const report: RollbackReport = { target, dryRun, changes: [] };
+    const snapshot = reconstructMemory(kept);
+    const collections = options.collections ?? JOURNALED_COLLECTIONS;
+    const unjournaled = collections.find(c => !JOURNALED_COLLECTIONS.includes(c));
+    if (unjournaled) throw new Error(`The ${unjournaled} collection is not journaled and cannot be rolled back`);
+
+    withMemorySource(store, { type: "rollback", id: target }, () => store.transaction(() => {
+        for (const collection of collections) {
+            const wanted = snapshot[collection] ?? {};
+            const current = store.getAll(collection);
+            for (const key of new Set([...Object.keys(current), ...Object.keys(wanted)])) {
+                const before = current[key];
+                const after = wanted[key];
+                if (sameValue(before, after)) continue;
+                const change = before === undefined ? "add" : after === undefined ? "remove" : "update";
+                report.changes.push({ collection, key, change, ...(before !== undefined ? { before } : {}), ...(after !== undefined ? { after } : {}) });
+                if (dryRun) continue;
+                if (after === undefined) store.delete(collection, key);
+                else store.put(collection, key, after);
+            }
+        }
+    }));
+    return report;
+}
+
+// --- Explaining an entry ---
+
+const EVIDENCE_FIELDS = new Set(['confidence', 'approvedCount', 'rejectedCount', 'seenCount']);
+
+/**
+ * Numeric evidence fields by path, e.g. "attributes.serviceDateLabel.confidence".
+ * Attribute histories (arrays) are skipped.
+ */
+function evidenceOf(value: unknown, prefix: string = ''): Map<string, number> {
+    const found = new Map<string, number>();
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return found;
+    for (const [field, child] of Object.entries(value)) {
+        const path = prefix ? `${prefix}.${field}` : field;
+        if (typeof child === 'number' && EVIDENCE_FIELDS.has(field)) found.set(path, child);
+        else for (const [p, n] of evidenceOf(child, path)) found.set(p, n);
+    }
+    return found;
+}
+
+/**
+ * One line per event, e.g.
+ * "#12 2025-01-10T09:00:00.000Z correction CORR-7: confidence 0.5 → 0.6, approvedCount 1 → 2".
+ */
+export function formatMemoryEvent(event: MemoryEvent): string {
+    const source = [event.source.type, event.source.id, event.source.actor && `by ${event.source.actor}`].filter(Boolean).join(' ');
+    const prefix = `#${event.sequence} ${event.timestamp} ${source}`;
+    if (event.change === "delete") return `${prefix}: deleted`;
+    if (event.change === "create") {
+        const initial = [...evidenceOf(event.value)].map(([path, n]) => `${path} ${n}`).join(', ');
+        return `${prefix}: created${initial ? ` with ${initial}` : ''}`;
+    }
+
+    const changes: string[] = [];
+    for (const change of event.fields ?? []) {
+        const path = change.path.join('.');
+        const field = change.path[change.path.length - 1];
+        if (EVIDENCE_FIELDS.has(field) && (typeof change.before === 'number' || typeof change.after === 'number')) {
+            changes.push(`${path} ${change.before ?? '-'} → ${change.removed ? '-' : change.after}`);
+        } else if (!change.removed) {
+            // A new attribute or pattern brings its evidence along
+            for (const [p, n] of evidenceOf(change.after, path)) changes.push(`${p} - → ${n}`);
+        }
+    }
+    return `${prefix}: ${changes.length > 0 ? changes.join(', ') : 'updated'}`;
+}
+
+/**
+ * How one entry got to its current state, oldest event first.
+ */
+export function explainMemory(store: MemoryStore, collection: MemoryCollection, key: string): string[] {
+    return readMemoryEvents(store, { collection, key }).map(formatMemoryEvent);
+}
@@ -0,0 +1,55 @@
+import { JsonFileMemoryStore } from './jsonFileStore';
+
+/**
+ * Names of the memory collections persisted by a store.
+ * Each collection is a flat key -> record map.
+ */
+export type MemoryCollection = 'vendor' | 'correction' | 'resolution' | 'duplicate' | 'duplicateIndex' | 'review' | 'vendorIdentity' | 'candidate' | 'event' | 'audit';
+
+export const MEMORY_COLLECTIONS: MemoryCollection[] = ['vendor', 'correction', 'resolution', 'duplicate', 'duplicateIndex', 'review', 'vendorIdentity', 'candidate', 'event', 'audit'];
+
+/**
+ * Storage backend shared by all memory modules.
+ *
+ * Reads return copies, so callers must `put` a record back for a change to stick.
+ * Writes made inside `transaction` are committed together or not at all.
+ */
+export interface MemoryStore {
+    get<T>(collection: MemoryCollection, key: string): T | null;
+    getAll<T>(collection: MemoryCollection): Record<string, T>;
+    put<T>(collection: MemoryCollection, key: string, value: T): void;
+    delete(collection: MemoryCollection, key: string): boolean;
+    /** Clears one collection, or every collection when none is given. */
+    clear(collection?: MemoryCollection): void;
+    /** Runs `work` atomically. Nested calls join the outermost transaction. */
+    transaction<R>(work: () => R): R;
+    close(): void;
+    /** Clock that writes are stamped with, e.g. the agent's; the system time when absent. */
+    now?(): Date;
+}
+
+/**
+ * ISO timestamp for a write to `store`, from the store's clock when it has one.
+ */
+export function timestampOf(store: MemoryStore): string {
+    return (store.now?.() ?? new Date()).toISOString();
+}
+
+let activeStore: MemoryStore | null = null;
+
+/**
+ * Returns the process-wide store, defaulting to JSON files in the working directory.
+ */
+export function getMemoryStore(): MemoryStore {
+    if (!activeStore) {
+        activeStore = new JsonFileMemoryStore();
+    }
+    return activeStore;
+}
+
+/**
+ * Replaces the process-wide store used by memory functions called without an explicit store.
+ */
+export function setMemoryStore(store: MemoryStore): void {
+    activeStore = store;
+}
@@ -1,7 +1,4 @@
-import * as fs from 'fs';
-import * as path from 'path';
-
-const MEMORY_FILE = path.resolve(process.cwd(), 'resolutionMemory.json');
+import { getMemoryStore, MemoryStore, timestampOf } from './memoryStore';
 
 interface ResolutionData {
     memoryId: string;
@@ -16,85 +13,103 @@ interface ResolutionMemory {
 }
 
 /**
- * Loads resolution memory from JSON file.
+ * Loads the whole resolution memory from the store.
  */
-export function loadResolutionMemory(): ResolutionMemory {
-    try {
-        if (!fs.existsSync(MEMORY_FILE)) {
-            return {};
-        }
-        const data = fs.readFileSync(MEMORY_FILE, 'utf-8');
-        return JSON.parse(data) as ResolutionMemory;
-    } catch (error) {
-        console.warn("Failed to load resolution memory:", error);
-        return {};
-    }
+export function loadResolutionMemory(store: MemoryStore = getMemoryStore()): ResolutionMemory {
+    return store.getAll<ResolutionData>('resolution');
 }
 
 /**
- * Saves resolution memory to JSON file.
+ * Replaces the stored resolution memory with the given object.
  */
-export function saveResolutionMemory(memory: ResolutionMemory): void {
-    try {
-        const data = JSON.stringify(memory, null, 2);
-        fs.writeFileSync(MEMORY_FILE, data, 'utf-8');
-    } catch (error) {
-        console.error("Failed to save resolution memory:", error);
-    }
+export function saveResolutionMemory(memory: ResolutionMemory, store: MemoryStore = getMemoryStore()): void {
+    store.transaction(() => {
+        store.clear('resolution');
+        for (const [memoryId, data] of Object.entries(memory)) {
+            store.put('resolution', memoryId, data);
+        }
+    });
 }
 
 /**
  * Records an approval for a specific memory ID.
  */
-export function recordApproval(memoryId: string): void {
-    const memory = loadResolutionMemory();
-    const timestamp = new Date().toISOString();
+export function recordApproval(memoryId: string, store: MemoryStore = getMemoryStore()): void {
+    const existing = store.get<ResolutionData>('resolution', memoryId);
+    const timestamp = timestampOf(store);
 
-    if (memory[memoryId]) {
-        memory[memoryId].approvedCount += 1;
-        memory[memoryId].lastDecision = "approved";
-        memory[memoryId].lastUpdated = timestamp;
+    if (existing) {
+        existing.approvedCount += 1;
+        existing.lastDecision = "approved";
+        existing.lastUpdated = timestamp;
+        store.put('resolution', memoryId, existing);
     } else {
-        memory[memoryId] = {
+        store.put<ResolutionData>('resolution', memoryId, {
             memoryId,
             approvedCount: 1,
             rejectedCount: 0,
             lastDecision: "approved",
             lastUpdated: timestamp
-        };
+        });
     }
-
-    saveResolutionMemory(memory);
 }
 
 /**
  * Records a rejection for a specific memory ID.
  */
-export function recordRejection(memoryId: string): void {
-    const memory = loadResolutionMemory();
-    const timestamp = new Date().toISOString();
+export function recordRejection(memoryId: string, store: MemoryStore = getMemoryStore()): void {
+    const existing = store.get<ResolutionData>('resolution', memoryId);
+    const timestamp = timestampOf(store);
 
-    if (memory[memoryId]) {
-        memory[memoryId].rejectedCount += 1;
-        memory[memoryId].lastDecision = "rejected";
-        memory[memoryId].lastUpdated = timestamp;
+    if (existing) {
+        existing.rejectedCount += 1;
+        existing.lastDecision = "rejected";
+        existing.lastUpdated = timestamp;
+        store.put('resolution', memoryId, existing);
     } else {
-        memory[memoryId] = {
+        store.put<ResolutionData>('resolution', memoryId, {
             memoryId,
             approvedCount: 0,
             rejectedCount: 1,
             lastDecision: "rejected",
             lastUpdated: timestamp
-        };
+        });
     }
-
-    saveResolutionMemory(memory);
 }
 
 /**
  * Retrieves resolution stats for a specific memory ID.
  */
-export function getResolutionStats(memoryId: string): ResolutionData | null {
-    const memory = loadResolutionMemory();
-    return memory[memoryId] || null;
+export function getResolutionStats(memoryId: string, store: MemoryStore = getMemoryStore()): ResolutionData | null {
+    return store.get<ResolutionData>('resolution', memoryId);
+}
+
+/**
+ * Deletes the resolution stats for a memory ID. Returns false if nothing was stored.
+ */
+export function forgetResolution(memoryId: string, store: MemoryStore = getMemoryStore()): boolean {
+    return store.delete('resolution', memoryId);
+}
+
+/**
+ * Re-homes every memory ID starting with `fromPrefix` under `intoPrefix`, adding
+ * counts where the target already exists.
+ */
+export function mergeResolutions(fromPrefix: string, intoPrefix: string, store: MemoryStore = getMemoryStore()): void {
+    store.transaction(() => {
+        for (const [memoryId, from] of Object.entries(loadResolutionMemory(store))) {
+            if (!memoryId.startsWith(fromPrefix)) continue;
+            const intoId = intoPrefix + memoryId.slice(fromPrefix.length);
+            const into = store.get<ResolutionData>('resolution', intoId);
+            const newer = !into || from.lastUpdated > into.lastUpdated ? from : into;
+            store.put<ResolutionData>('resolution', intoId, {
+                memoryId: intoId,
+                approvedCount: from.approvedCount + (into?.approvedCount ?? 0),
+                rejectedCount: from.rejectedCount + (into?.rejectedCount ?? 0),
+                lastDecision: newer.lastDecision,
+                lastUpdated: newer.lastUpdated
+            });
+            store.delete('resolution', memoryId);
+        }
+    });
 }
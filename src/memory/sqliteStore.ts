@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { MemoryCollection, MemoryStore } from './memoryStore';
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS memory_entries (
+    collection TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    PRIMARY KEY (collection, key)
+)`;
+
+export interface SqliteStoreOptions {
+    /** Committed transactions after which the database file is written. */
+    flushEvery: number;
+    /** Longest a committed transaction waits to be written, in milliseconds. */
+    flushAfterMs: number;
+}
+
+export const DEFAULT_SQLITE_STORE_OPTIONS: SqliteStoreOptions = {
+    flushEvery: 100,
+    flushAfterMs: 1000
+};
+
+// Stores with unwritten transactions, flushed when the process exits
+const unflushed = new Set<SqliteMemoryStore>();
+let exitHook = false;
+
+/**
+ * Memory store backed by an embedded SQLite database file.
+ *
+ * The database runs in-process (sql.js), so lookups are indexed queries instead
+ * of whole-file parses. sql.js can only write the whole database, so committed
+ * transactions are written behind: every `flushEvery` transactions, `flushAfterMs`
+ * after the first unwritten one, on `flush()`, on `close()` and when the process
+ * exits. Writes go via a temp file and rename, so the file on disk is always a
+ * consistent snapshot; a crash loses at most the transactions since the last write.
+ */
+export class SqliteMemoryStore implements MemoryStore {
+    private depth = 0;
+    private pending = 0;
+    private timer: NodeJS.Timeout | null = null;
+    private readonly options: SqliteStoreOptions;
+
+    private constructor(private readonly db: Database, private readonly filePath: string, options: Partial<SqliteStoreOptions>) {
+        this.options = { ...DEFAULT_SQLITE_STORE_OPTIONS, ...options };
+        this.db.run(SCHEMA);
+    }
+
+    /**
+     * Opens (or creates) the database file at the given path.
+     */
+    static async open(filePath: string = path.resolve(process.cwd(), 'memory.sqlite'), options: Partial<SqliteStoreOptions> = {}): Promise<SqliteMemoryStore> {
+        const SQL = await initSqlJs();
+        const data = fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
+        return new SqliteMemoryStore(new SQL.Database(data), filePath, options);
+    }
+
+    get<T>(collection: MemoryCollection, key: string): T | null {
+        const rows = this.query('SELECT value FROM memory_entries WHERE collection = ? AND key = ?', [collection, key]);
+        return rows.length > 0 ? JSON.parse(String(rows[0][0])) as T : null;
+    }
+
+    getAll<T>(collection: MemoryCollection): Record<string, T> {
+        const rows = this.query('SELECT key, value FROM memory_entries WHERE collection = ? ORDER BY key', [collection]);
+        const all: Record<string, T> = {};
+        for (const [key, value] of rows) {
+            all[String(key)] = JSON.parse(String(value)) as T;
+        }
+        return all;
+    }
+
+    put<T>(collection: MemoryCollection, key: string, value: T): void {
+        this.transaction(() => {
+            this.db.run(
+                'INSERT INTO memory_entries (collection, key, value) VALUES (?, ?, ?) ' +
+                'ON CONFLICT (collection, key) DO UPDATE SET value = excluded.value',
+                [collection, key, JSON.stringify(value)]
+            );
+        });
+    }
+
+    delete(collection: MemoryCollection, key: string): boolean {
+        return this.transaction(() => {
+            this.db.run('DELETE FROM memory_entries WHERE collection = ? AND key = ?', [collection, key]);
+            return this.db.getRowsModified() > 0;
+        });
+    }
+
+    clear(collection?: MemoryCollection): void {
+        this.transaction(() => {
+            if (collection) {
+                this.db.run('DELETE FROM memory_entries WHERE collection = ?', [collection]);
+            } else {
+                this.db.run('DELETE FROM memory_entries');
+            }
+        });
+    }
+
+    transaction<R>(work: () => R): R {
+        if (this.depth > 0) {
+            this.depth++;
+            try {
+                return work();
+            } finally {
+                this.depth--;
+            }
+        }
+
+        this.depth = 1;
+        this.db.run('BEGIN');
+        let result: R;
+        try {
+            result = work();
+            this.db.run('COMMIT');
+        } catch (error) {
+            this.db.run('ROLLBACK');
+            throw error;
+        } finally {
+            this.depth = 0;
+        }
+        this.committed();
+        return result;
+    }
+
+    /**
+     * Writes committed transactions that are not on disk yet.
+     */
+    flush(): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        unflushed.delete(this);
+        if (this.pending === 0) return;
+        this.pending = 0;
+        this.persist();
+    }
+
+    close(): void {
+        this.flush();
+        this.db.close();
+    }
+
+    private query(sql: string, params: SqlValue[]): SqlValue[][] {
+        const results = this.db.exec(sql, params);
+        return results.length > 0 ? results[0].values : [];
+    }
+
+    private committed(): void {
+        this.pending++;
+        if (this.pending >= this.options.flushEvery) return this.flush();
+        unflushed.add(this);
+        if (!exitHook) {
+            exitHook = true;
+            process.once('exit', () => unflushed.forEach(store => store.flush()));
+        }
+        if (!this.timer) {
+            this.timer = setTimeout(() => this.flush(), this.options.flushAfterMs);
+            // A pending write never keeps the process alive; the exit hook writes it
+            this.timer.unref();
+        }
+    }
+
+    private persist(): void {
+        const tmp = `${this.filePath}.${process.pid}.tmp`;
+        fs.writeFileSync(tmp, this.db.export());
+        fs.renameSync(tmp, this.filePath);
+    }
+}
@@ -1,85 +1,289 @@
-import * as fs from 'fs';
-import * as path from 'path';
+import { getMemoryStore, MemoryStore, timestampOf } from './memoryStore';
+import { RoundingMode, TaxRounding } from '../tax/money';
 
-const MEMORY_FILE = path.resolve(process.cwd(), 'vendorMemory.json');
-
-interface VendorData {
+/** Value types of the single-valued attributes in a vendor profile. */
+export interface VendorAttributes {
     serviceDateLabel: string;
+    defaultCurrency: string;
+    /** Whether line totals are stated gross, VAT included. */
+    pricesIncludeVAT: boolean;
+    /** Payment and discount terms, e.g. "2% Skonto if paid within 10 days". */
+    paymentTerms: string;
+    /** Format of the invoice date as printed, e.g. "DD.MM.YYYY" or "MM/DD/YYYY". */
+    dateFormat: string;
+    /** Whether the vendor's invoices always carry a purchase order number. */
+    poRequired: boolean;
+    /** VAT rate in percent observed on this vendor's invoices. */
+    vatRate: number;
+    /** How the vendor rounds quantity × unit price to a line total. */
+    lineRounding: RoundingMode;
+    /** Whether the vendor rounds VAT per line or computes it on the total. */
+    taxRounding: TaxRounding;
+}
+
+/** A profile attribute; `skuMappings` holds one entry per line description, `fieldLabels` one per invoice field. */
+export type VendorAttribute = keyof VendorAttributes | KeyedVendorAttribute;
+
+/** Attributes with one entry per key. */
+export type KeyedVendorAttribute = "skuMappings" | "fieldLabels";
+
+/**
+ * How a value reached memory: printed on a document, approved by a reviewer,
+ * or set by a reviewer in place of another value.
+ */
+export type AttributeSource = "observed" | "confirmed" | "corrected";
+
+export interface AttributeEvent<T> {
+    timestamp: string;
+    event: AttributeSource | "rejected" | "replaced";
+    value: T;
+    /** Confidence after the event. */
+    confidence: number;
+}
+
+export interface AttributeMemory<T> {
+    value: T;
     confidence: number;
+    /** Evidence for the current value: times it was observed or confirmed. */
+    approvedCount: number;
+    /** Evidence against it: rejections and conflicting observations. */
+    rejectedCount: number;
+    /** Absent on entries upgraded from the legacy shape without a timestamp; those do not decay. */
+    lastUpdated?: string;
+    /** Past events, oldest first; only the last 20 are kept. */
+    history: AttributeEvent<T>[];
+}
+
+export interface VendorProfile {
+    attributes: { [A in keyof VendorAttributes]?: AttributeMemory<VendorAttributes[A]> };
+    /** SKU per normalized line description. */
+    skuMappings: Record<string, AttributeMemory<string>>;
+    /** Label the vendor prints before a field in the raw text, per field, e.g. `poNumber` → "Bestellnummer". */
+    fieldLabels: Record<string, AttributeMemory<string>>;
 }
 
 interface VendorMemory {
-    [vendorName: string]: VendorData;
+    [vendorName: string]: VendorProfile;
+}
+
+/** The flat shape vendor memory had before profiles. */
+interface LegacyVendorData {
+    serviceDateLabel: string | null;
+    confidence: number;
+    approvedCount?: number;
+    lastUpdated?: string;
+    vatRate?: number;
 }
 
+const HISTORY_LIMIT = 20;
+
 /**
- * Loads the vendor memory from the JSON file.
- * Returns an empty object if the file does not exist.
+ * Key a line description is mapped under: lower case, single spaces.
  */
-export function loadVendorMemory(): VendorMemory {
-    try {
-        if (!fs.existsSync(MEMORY_FILE)) {
-            return {};
-        }
-        const data = fs.readFileSync(MEMORY_FILE, 'utf-8');
-        return JSON.parse(data) as VendorMemory;
-    } catch (error) {
-        console.warn("Failed to load vendor memory:", error);
-        return {};
+export function skuKeyOf(description: string): string {
+    return description.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Reads a stored entry, upgrading the legacy flat shape to a profile.
+ */
+function profileOf(stored: VendorProfile | LegacyVendorData | null): VendorProfile | null {
+    if (!stored) return null;
+    if ('attributes' in stored) return { ...stored, skuMappings: stored.skuMappings ?? {}, fieldLabels: stored.fieldLabels ?? {} };
+
+    const profile: VendorProfile = emptyProfile();
+    const { lastUpdated } = stored;
+    if (stored.serviceDateLabel !== null) {
+        profile.attributes.serviceDateLabel = {
+            value: stored.serviceDateLabel,
+            confidence: stored.confidence,
+            approvedCount: stored.approvedCount ?? 1,
+            rejectedCount: 0,
+            lastUpdated,
+            history: []
+        };
+    }
+    if (stored.vatRate !== undefined) {
+        profile.attributes.vatRate = { value: stored.vatRate, confidence: 0.5, approvedCount: 1, rejectedCount: 0, lastUpdated, history: [] };
     }
+    return profile;
+}
+
+function emptyProfile(): VendorProfile {
+    return { attributes: {}, skuMappings: {}, fieldLabels: {} };
+}
+
+function isKeyed(attribute: VendorAttribute): attribute is KeyedVendorAttribute {
+    return attribute === "skuMappings" || attribute === "fieldLabels";
+}
+
+/**
+ * The entries an attribute lives in and the key of its entry there.
+ */
+function entryOf(profile: VendorProfile, attribute: VendorAttribute, key: string | undefined): { entries: Record<string, AttributeMemory<unknown> | undefined>; entryKey: string } {
+    if (attribute === "skuMappings") return { entries: profile.skuMappings, entryKey: skuKeyOf(key ?? "") };
+    if (attribute === "fieldLabels") return { entries: profile.fieldLabels, entryKey: key ?? "" };
+    return { entries: profile.attributes, entryKey: attribute };
+}
+
+function withEvent<T>(memory: AttributeMemory<T>, event: AttributeEvent<T>['event'], value: T, timestamp: string): AttributeMemory<T> {
+    const history = [...memory.history, { timestamp, event, value, confidence: memory.confidence }];
+    return { ...memory, history: history.slice(-HISTORY_LIMIT) };
+}
+
+function roundConfidence(value: number): number {
+    return Math.round(Math.min(1, Math.max(0, value)) * 10) / 10;
 }
 
 /**
- * Saves the given vendor memory object to the JSON file.
+ * Folds one piece of evidence into an attribute.
+ *
+ * The same value gains 0.1. A reviewer's different value replaces the old one at
+ * 0.5. A conflicting observation costs the current value 0.2 and only replaces
+ * it once its confidence would drop below 0.5.
  */
-export function saveVendorMemory(memory: VendorMemory): void {
-    try {
-        const data = JSON.stringify(memory, null, 2);
-        fs.writeFileSync(MEMORY_FILE, data, 'utf-8');
-    } catch (error) {
-        console.error("Failed to save vendor memory:", error);
+function learnValue<T>(existing: AttributeMemory<T> | undefined, value: T, source: AttributeSource, timestamp: string): AttributeMemory<T> {
+    const fresh = (history: AttributeEvent<T>[]): AttributeMemory<T> =>
+        ({ value, confidence: 0.5, approvedCount: 1, rejectedCount: 0, lastUpdated: timestamp, history });
+    if (!existing) return withEvent(fresh([]), source, value, timestamp);
+
+    if (JSON.stringify(existing.value) === JSON.stringify(value)) {
+        return withEvent({
+            ...existing,
+            confidence: roundConfidence(existing.confidence + 0.1),
+            approvedCount: existing.approvedCount + 1,
+            lastUpdated: timestamp
+        }, source, value, timestamp);
     }
+    const weakened = roundConfidence(existing.confidence - 0.2);
+    if (source === "observed" && weakened >= 0.5) {
+        return withEvent({ ...existing, confidence: weakened, rejectedCount: existing.rejectedCount + 1, lastUpdated: timestamp }, source, value, timestamp);
+    }
+    return withEvent(fresh(existing.history), "replaced", value, timestamp);
+}
+
+function putProfile(vendorName: string, profile: VendorProfile, store: MemoryStore): void {
+    store.put<VendorProfile>('vendor', vendorName, profile);
 }
 
 /**
- * Remembers a correction for a specific vendor.
- * Increases confidence if vendor exists, otherwise creates new entry.
+ * Loads the whole vendor memory from the store.
+ * Returns an empty object if nothing has been stored yet.
  */
-export function rememberVendorCorrection(vendorName: string, serviceDateLabel: string): void {
-    const memory = loadVendorMemory();
-
-    if (memory[vendorName]) {
-        // Vendor exists, check if label matches (implied requirement is to reinforce this label)
-        // For simplicity based on prompt: "Increase confidence by 0.1 (max 1.0)"
-        // We will update the label to the latest corrected one if it differs? 
-        // The prompt says "store... serviceDateLabel". 
-        // If the user "corrects" it, it implies this is the right one.
-
-        memory[vendorName].serviceDateLabel = serviceDateLabel;
-
-        // Increase confidence, cap at 1.0
-        // Using loose floating point addition protection
-        let newConfidence = memory[vendorName].confidence + 0.1;
-        if (newConfidence > 1.0) newConfidence = 1.0;
-
-        // Round to 1 decimal place to avoid 0.6000000000000001
-        memory[vendorName].confidence = Math.round(newConfidence * 10) / 10;
-
-    } else {
-        // New vendor entry
-        memory[vendorName] = {
-            serviceDateLabel: serviceDateLabel,
-            confidence: 0.5
-        };
+export function loadVendorMemory(store: MemoryStore = getMemoryStore()): VendorMemory {
+    const memory: VendorMemory = {};
+    for (const [vendorName, stored] of Object.entries(store.getAll<VendorProfile | LegacyVendorData>('vendor'))) {
+        memory[vendorName] = profileOf(stored)!;
     }
+    return memory;
+}
+
+/**
+ * Replaces the stored vendor memory with the given object.
+ */
+export function saveVendorMemory(memory: VendorMemory, store: MemoryStore = getMemoryStore()): void {
+    store.transaction(() => {
+        store.clear('vendor');
+        for (const [vendorName, data] of Object.entries(memory)) {
+            store.put('vendor', vendorName, data);
+        }
+    });
+}
+
+/**
+ * Remembers one attribute value for a vendor. `key` is the line description
+ * for `skuMappings`, the field for `fieldLabels` and ignored otherwise.
+ */
+export function rememberVendorAttribute(vendorName: string, attribute: VendorAttribute, value: unknown, source: AttributeSource = "confirmed", store: MemoryStore = getMemoryStore(), key?: string): void {
+    if (isKeyed(attribute) && key === undefined) throw new Error(`${attribute} needs a key`);
+    const profile = getVendorMemory(vendorName, store) ?? emptyProfile();
+    const { entries, entryKey } = entryOf(profile, attribute, key);
+    entries[entryKey] = learnValue(entries[entryKey], isKeyed(attribute) ? String(value) : value, source, timestampOf(store));
+    putProfile(vendorName, profile, store);
+}
+
+/**
+ * Records that a reviewer rejected the remembered value: -0.2 confidence.
+ */
+export function rejectVendorAttribute(vendorName: string, attribute: VendorAttribute, store: MemoryStore = getMemoryStore(), key?: string): void {
+    const profile = getVendorMemory(vendorName, store);
+    if (!profile) return;
+    const { entries, entryKey } = entryOf(profile, attribute, key);
+    const memory = entries[entryKey];
+    if (!memory) return;
+
+    const timestamp = timestampOf(store);
+    entries[entryKey] = withEvent({
+        ...memory,
+        confidence: roundConfidence(memory.confidence - 0.2),
+        rejectedCount: memory.rejectedCount + 1,
+        lastUpdated: timestamp
+    }, "rejected", memory.value, timestamp);
+    putProfile(vendorName, profile, store);
+}
+
+/**
+ * Remembers a corrected service date label for a specific vendor.
+ */
+export function rememberVendorCorrection(vendorName: string, serviceDateLabel: string, store: MemoryStore = getMemoryStore()): void {
+    rememberVendorAttribute(vendorName, "serviceDateLabel", serviceDateLabel, "corrected", store);
+}
+
+/**
+ * Remembers the VAT rate printed on one of the vendor's invoices.
+ */
+export function rememberVendorVatRate(vendorName: string, vatRate: number, store: MemoryStore = getMemoryStore()): void {
+    rememberVendorAttribute(vendorName, "vatRate", vatRate, "observed", store);
+}
+
+/**
+ * Retrieves the profile of a specific vendor.
+ */
+export function getVendorMemory(vendorName: string, store: MemoryStore = getMemoryStore()): VendorProfile | null {
+    return profileOf(store.get<VendorProfile | LegacyVendorData>('vendor', vendorName));
+}
+
+/**
+ * Retrieves one attribute of a vendor's profile.
+ */
+export function getVendorAttribute<A extends keyof VendorAttributes>(vendorName: string, attribute: A, store: MemoryStore = getMemoryStore()): AttributeMemory<VendorAttributes[A]> | null {
+    return getVendorMemory(vendorName, store)?.attributes[attribute] ?? null;
+}
+
+/**
+ * Deletes everything remembered about a vendor. Returns false if nothing was stored.
+ */
+export function forgetVendorMemory(vendorName: string, store: MemoryStore = getMemoryStore()): boolean {
+    return store.delete('vendor', vendorName);
+}
 
-    saveVendorMemory(memory);
+function mergeAttribute<T>(into: AttributeMemory<T> | undefined, from: AttributeMemory<T> | undefined): AttributeMemory<T> | undefined {
+    if (!into || !from) return into ?? from;
+    const winner = from.confidence > into.confidence ? from : into;
+    const history = [...into.history, ...from.history].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    return { ...winner, history: history.slice(-HISTORY_LIMIT) };
 }
 
 /**
- * Retrieves memory for a specific vendor.
+ * Folds one vendor's memory into another's, e.g. after two spellings turned out
+ * to be the same supplier. For each attribute the more confident value wins.
  */
-export function getVendorMemory(vendorName: string): VendorData | null {
-    const memory = loadVendorMemory();
-    return memory[vendorName] || null;
+export function mergeVendorMemory(fromVendor: string, intoVendor: string, store: MemoryStore = getMemoryStore()): void {
+    store.transaction(() => {
+        const from = getVendorMemory(fromVendor, store);
+        if (!from) return;
+        const into = getVendorMemory(intoVendor, store) ?? emptyProfile();
+        const attributes = into.attributes as Record<string, AttributeMemory<unknown> | undefined>;
+        for (const [attribute, memory] of Object.entries(from.attributes)) {
+            attributes[attribute] = mergeAttribute(attributes[attribute], memory as AttributeMemory<unknown>);
+        }
+        for (const [key, memory] of Object.entries(from.skuMappings)) {
+            into.skuMappings[key] = mergeAttribute(into.skuMappings[key], memory)!;
+        }
+        for (const [key, memory] of Object.entries(from.fieldLabels)) {
+            into.fieldLabels[key] = mergeAttribute(into.fieldLabels[key], memory)!;
+        }
+        putProfile(intoVendor, into, store);
+        store.delete('vendor', fromVendor);
+    });
 }
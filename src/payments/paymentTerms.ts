@@ -0,0 +1,121 @@
+import { fromMinorUnits, parseAmount, roundDiv, toMinorUnits } from '../tax/money';
+
+// --- Payment and early-payment discount (Skonto) terms ---
+
+export interface PaymentTerms {
+    /** Early-payment discount in percent, e.g. 2 for "2% Skonto". */
+    discountPercent: number | null;
+    /** Days from the invoice date within which the discount may be taken. */
+    discountDays: number | null;
+    /** Days from the invoice date until the full amount is due. */
+    netDays: number | null;
+    /** The phrase(s) the terms were read from. */
+    text: string;
+}
+
+export interface PaymentSchedule {
+    terms: PaymentTerms;
+    /** Amount the terms apply to: gross total, or the sum of line totals without one. */
+    amount: number;
+    /** Last day to pay with the discount, ISO `YYYY-MM-DD`. */
+    discountDeadline: string | null;
+    discountAmount: number | null;
+    /** Amount to pay when paying by the discount deadline. */
+    discountedAmount: number | null;
+    /** Last day to pay the full amount, ISO `YYYY-MM-DD`. */
+    netDueDate: string | null;
+}
+
+const PERCENT = /(\d+(?:[.,]\d+)?)\s*%/;
+const DAYS = /(\d+)\s*(?:days?|tagen?|tg\b\.?)/i;
+const NET_WORD = /\b(?:net|netto|rein|ohne\s+abzug|due|payable|zahlbar|fällig)\b/i;
+/** "net 30", "netto 30", "Net30" */
+const NET_DAYS = /\b(?:net|netto)\s*(\d+)\b/i;
+/** US shorthand "2/10 net 30" */
+const US_TERMS = /\b(\d+(?:\.\d+)?)\/(\d+),?\s*net\s*(\d+)\b/i;
+
+/**
+ * Reads payment terms from one phrase, e.g. "2% Skonto bei Zahlung innerhalb 10 Tagen",
+ * "3% if paid within 14 days", "net 30", "30 Tage netto" or "2/10 net 30".
+ * Returns null when the phrase states no terms.
+ */
+export function parsePaymentTerms(text: string): PaymentTerms | null {
+    const terms: PaymentTerms = { discountPercent: null, discountDays: null, netDays: null, text: text.trim() };
+
+    const us = text.match(US_TERMS);
+    if (us) {
+        return { ...terms, discountPercent: Number(us[1]), discountDays: Number(us[2]), netDays: Number(us[3]) };
+    }
+
+    // "14 Tage 2% Skonto, 30 Tage netto": each clause states one term. A comma
+    // followed by a space separates clauses; "2,5%" keeps its decimal comma.
+    for (const clause of text.split(/;|,\s+|\s+(?:and|und|oder|or)\s+/i)) {
+        const percent = clause.match(PERCENT);
+        const days = clause.match(DAYS);
+        if (percent && days && terms.discountPercent === null) {
+            terms.discountPercent = parseAmount(percent[1]);
+            terms.discountDays = Number(days[1]);
+            continue;
+        }
+        if (percent) continue;
+        const net = clause.match(NET_DAYS);
+        if (net && terms.netDays === null) {
+            terms.netDays = Number(net[1]);
+        } else if (days && NET_WORD.test(clause) && terms.netDays === null) {
+            terms.netDays = Number(days[1]);
+        }
+    }
+    return terms.discountPercent === null && terms.netDays === null ? null : terms;
+}
+
+/**
+ * Finds payment terms in document text. Discount and net terms may sit on
+ * different lines; the first of each counts.
+ */
+export function findPaymentTerms(rawText: string): PaymentTerms | null {
+    let found: PaymentTerms | null = null;
+    for (const line of rawText.split('\n')) {
+        const terms = parsePaymentTerms(line);
+        if (!terms) continue;
+        if (!found) {
+            found = terms;
+            continue;
+        }
+        if (found.discountPercent === null && terms.discountPercent !== null) {
+            found = { ...found, discountPercent: terms.discountPercent, discountDays: terms.discountDays, text: `${found.text}; ${terms.text}` };
+        } else if (found.netDays === null && terms.netDays !== null) {
+            found = { ...found, netDays: terms.netDays, text: `${found.text}; ${terms.text}` };
+        }
+    }
+    return found;
+}
+
+function addDays(isoDate: string, days: number): string | null {
+    const start = Date.parse(`${isoDate}T00:00:00Z`);
+    if (Number.isNaN(start)) return null;
+    return new Date(start + days * 86400000).toISOString().slice(0, 10);
+}
+
+/**
+ * Discount deadline, discounted amount and net due date for an invoice.
+ * The discount is rounded half away from zero to whole minor units of the
+ * currency, with `decimals` places (e.g. 0 for JPY).
+ */
+export function schedulePayment(terms: PaymentTerms, invoiceDate: string, amount: number, decimals: number = 2): PaymentSchedule {
+    const schedule: PaymentSchedule = {
+        terms,
+        amount,
+        discountDeadline: null,
+        discountAmount: null,
+        discountedAmount: null,
+        netDueDate: terms.netDays !== null ? addDays(invoiceDate, terms.netDays) : null
+    };
+    if (terms.discountPercent !== null) {
+        // Basis points keep the multiplication in integers for rates like 2.5%
+        const discountMinor = roundDiv(toMinorUnits(amount, decimals) * Math.round(terms.discountPercent * 100), 10000);
+        schedule.discountAmount = fromMinorUnits(discountMinor, decimals);
+        schedule.discountedAmount = fromMinorUnits(toMinorUnits(amount, decimals) - discountMinor, decimals);
+        schedule.discountDeadline = terms.discountDays !== null ? addDays(invoiceDate, terms.discountDays) : null;
+    }
+    return schedule;
+}
@@ -0,0 +1,186 @@
+import { rejectVendorAttribute, rememberVendorAttribute } from '../memory/vendorMemory';
+import { rememberCorrectionApproval, rememberCorrectionRejection } from '../memory/correctionMemory';
+import { recordApproval, recordRejection } from '../memory/resolutionMemory';
+import { getMemoryStore, MemoryStore } from '../memory/memoryStore';
+import { withMemorySource } from '../memory/memoryJournal';
+import { InvoiceRunResult, NormalizedInvoice, ProposedCorrection } from '../types';
+import { applyCorrections } from '../corrections/applyCorrections';
+
+export type ReviewDecision =
+    | { action: "approve" }
+    | { action: "reject" }
+    | { action: "edit"; value: unknown };
+
+export interface ReviewProposal extends ProposedCorrection {
+    status: "pending" | "approved" | "rejected" | "edited";
+    /** Value chosen by the reviewer when the proposal was edited. */
+    editedValue?: unknown;
+    reviewer?: string;
+    decidedAt?: string;
+}
+
+export interface ReviewItem {
+    reviewId: string;
+    invoiceId: string;
+    vendor: string;
+    /** Canonical vendor ID that decisions are learned under. */
+    vendorId: string;
+    status: "pending" | "resolved";
+    reasoning: string;
+    enqueuedAt: string;
+    resolvedAt?: string;
+    proposals: ReviewProposal[];
+    result: InvoiceRunResult;
+}
+
+/**
+ * Persistent queue of results awaiting human review.
+ *
+ * Each reviewer decision is routed to Correction, Resolution and Vendor Memory
+ * for the one proposal it concerns. An item resolves once every proposal is decided.
+ */
+export class ReviewQueue {
+    constructor(
+        private readonly store: MemoryStore = getMemoryStore(),
+        private readonly clock: () => Date = () => new Date()
+    ) {}
+
+    /**
+     * Adds a result to the queue. Re-enqueueing an invoice replaces its item only
+     * while no proposal of it is decided; a resolved or partly reviewed item is kept
+     * and the new one gets the next free ID, e.g. "INV-1#2".
+     */
+    enqueue(invoiceId: string, result: InvoiceRunResult): ReviewItem {
+        let reviewId = invoiceId;
+        for (let n = 2; !this.replaceable(this.get(reviewId)); n++) reviewId = `${invoiceId}#${n}`;
+        const item: ReviewItem = {
+            reviewId,
+            invoiceId,
+            vendor: result.normalizedInvoice.vendor,
+            vendorId: result.normalizedInvoice.vendorId || result.normalizedInvoice.vendor,
+            status: "pending",
+            reasoning: result.reasoning,
+            enqueuedAt: this.clock().toISOString(),
+            proposals: result.proposedCorrections.map(proposal => ({ ...proposal, status: "pending" })),
+            result
+        };
+        this.store.put('review', item.reviewId, item);
+        return item;
+    }
+
+    get(reviewId: string): ReviewItem | null {
+        return this.store.get<ReviewItem>('review', reviewId);
+    }
+
+    /**
+     * Lists queued items, oldest first, optionally filtered by status.
+     */
+    list(status?: ReviewItem['status']): ReviewItem[] {
+        return Object.values(this.store.getAll<ReviewItem>('review'))
+            .filter(item => !status || item.status === status)
+            .sort((a, b) => a.enqueuedAt.localeCompare(b.enqueuedAt));
+    }
+
+    pending(): ReviewItem[] {
+        return this.list("pending");
+    }
+
+    /**
+     * Records a decision on one proposal and feeds it into memory.
+     */
+    decide(reviewId: string, proposalId: string, decision: ReviewDecision, reviewer?: string): ReviewItem {
+        const source = { type: "review" as const, id: `${reviewId}/${proposalId}`, ...(reviewer ? { actor: reviewer } : {}) };
+        return withMemorySource(this.store, source, () => this.store.transaction(() => {
+            const item = this.get(reviewId);
+            if (!item) throw new Error(`Review item '${reviewId}' not found`);
+            const proposal = item.proposals.find(p => p.proposalId === proposalId);
+            if (!proposal) throw new Error(`Proposal '${proposalId}' not found on '${reviewId}'`);
+            if (proposal.status !== "pending") throw new Error(`Proposal '${proposalId}' on '${reviewId}' was already ${proposal.status}`);
+
+            this.learn(item.vendorId ?? item.vendor, proposal, decision);
+
+            const timestamp = this.clock().toISOString();
+            proposal.status = decision.action === "approve" ? "approved" : decision.action === "reject" ? "rejected" : "edited";
+            if (decision.action === "edit") proposal.editedValue = decision.value;
+            proposal.reviewer = reviewer;
+            proposal.decidedAt = timestamp;
+
+            if (item.proposals.every(p => p.status !== "pending")) {
+                item.status = "resolved";
+                item.resolvedAt = timestamp;
+            }
+            this.store.put('review', reviewId, item);
+            return item;
+        }));
+    }
+
+    /**
+     * Applies the same decision to every pending proposal of an item.
+     */
+    decideAll(reviewId: string, decision: { action: "approve" } | { action: "reject" }, reviewer?: string): ReviewItem {
+        return this.store.transaction(() => {
+            const item = this.get(reviewId);
+            if (!item) throw new Error(`Review item '${reviewId}' not found`);
+            let updated = item;
+            for (const proposal of item.proposals.filter(p => p.status === "pending")) {
+                updated = this.decide(reviewId, proposal.proposalId, decision, reviewer);
+            }
+            return updated;
+        });
+    }
+
+    /**
+     * Closes an item without touching memory, e.g. one that has no proposals.
+     */
+    dismiss(reviewId: string): ReviewItem {
+        return this.store.transaction(() => {
+            const item = this.get(reviewId);
+            if (!item) throw new Error(`Review item '${reviewId}' not found`);
+            item.status = "resolved";
+            item.resolvedAt = this.clock().toISOString();
+            this.store.put('review', reviewId, item);
+            return item;
+        });
+    }
+
+    /**
+     * The reviewed invoice: approved proposals applied with their proposed value,
+     * edited ones with the reviewer's value. Rejected and pending proposals are left out.
+     */
+    correctedInvoice(reviewId: string): NormalizedInvoice {
+        const item = this.get(reviewId);
+        if (!item) throw new Error(`Review item '${reviewId}' not found`);
+        const accepted = item.proposals
+            .filter(p => p.status === "approved" || p.status === "edited")
+            .map(p => p.status === "edited" ? { ...p, newValue: p.editedValue } : p);
+        return applyCorrections(item.result.normalizedInvoice, accepted);
+    }
+
+    private replaceable(item: ReviewItem | null): boolean {
+        return !item || (item.status === "pending" && item.proposals.every(p => p.status === "pending"));
+    }
+
+    private learn(vendor: string, proposal: ReviewProposal, decision: ReviewDecision): void {
+        if (decision.action === "approve") {
+            if (proposal.patternId) {
+                rememberCorrectionApproval(proposal.patternId, proposal.reason, proposal.description, this.store, vendor);
+            }
+            if (proposal.vendorAttribute) {
+                rememberVendorAttribute(vendor, proposal.vendorAttribute, proposal.newValue, "confirmed", this.store, proposal.attributeKey);
+            }
+            recordApproval(proposal.memoryId, this.store);
+            return;
+        }
+
+        // Rejected or edited: the proposed value was wrong
+        if (proposal.patternId) {
+            rememberCorrectionRejection(proposal.patternId, this.store, vendor);
+        }
+        if (decision.action === "edit" && proposal.vendorAttribute) {
+            rememberVendorAttribute(vendor, proposal.vendorAttribute, decision.value, "corrected", this.store, proposal.attributeKey);
+        } else if (proposal.vendorAttribute) {
+            rejectVendorAttribute(vendor, proposal.vendorAttribute, this.store, proposal.attributeKey);
+        }
+        recordRejection(proposal.memoryId, this.store);
+    }
+}
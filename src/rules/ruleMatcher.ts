@@ -0,0 +1,70 @@
+import { ExtractedInvoice, PurchaseOrder } from '../types';
+import { findMatchingPO, inferCurrencyFromRawText } from '../agent/detectors';
+import { findPaymentTerms } from '../payments/paymentTerms';
+import { RuleDefinition } from './ruleRegistry';
+
+/**
+ * One firing of a rule. Line item rules produce one hit per matching line.
+ */
+export interface RuleHit {
+    value: string | boolean;
+    lineIndex?: number;
+    description?: string;
+}
+
+/**
+ * True when the rule's preconditions hold, i.e. the fields it would fill are missing.
+ */
+export function isRuleApplicable(rule: RuleDefinition, invoice: ExtractedInvoice): boolean {
+    const { fieldMissing } = rule.match;
+    return !fieldMissing || !invoice.fields[fieldMissing];
+}
+
+/**
+ * Evaluates a rule's matchers against an invoice.
+ * Returns an empty array when any matcher misses.
+ */
+export function evaluateRule(rule: RuleDefinition, invoice: ExtractedInvoice, purchaseOrders: PurchaseOrder[]): RuleHit[] {
+    const { match } = rule;
+    const { fields, rawText, vendor } = invoice;
+    let matched: string | boolean = true;
+
+    if (!isRuleApplicable(rule, invoice)) return [];
+    if (match.rawTextContains && !match.rawTextContains.some(p => rawText.includes(p))) return [];
+
+    if (match.rawTextLine) {
+        const line = rawText.split('\n').find(l => match.rawTextLine!.some(p => l.includes(p)));
+        if (!line) return [];
+        matched = line.trim();
+    }
+
+    if (match.paymentTerms) {
+        const terms = findPaymentTerms(rawText);
+        if (!terms) return [];
+        matched = terms.text;
+    }
+
+    if (match.currencyCodes) {
+        const code = inferCurrencyFromRawText(rawText, match.currencyCodes);
+        if (!code) return [];
+        matched = code;
+    }
+
+    if (match.singlePurchaseOrder) {
+        const po = findMatchingPO(vendor, fields.lineItems, purchaseOrders);
+        if (!po) return [];
+        matched = po.poNumber;
+    }
+
+    const value = rule.action.value ?? matched;
+    const lineMatcher = match.lineItem;
+    if (!lineMatcher) return [{ value }];
+
+    const hits: RuleHit[] = [];
+    fields.lineItems.forEach((li, lineIndex) => {
+        if (lineMatcher.skuMissing && li.sku) return;
+        if (lineMatcher.descriptionContains && !lineMatcher.descriptionContains.some(kw => li.description.includes(kw))) return;
+        hits.push({ value, lineIndex, description: li.description });
+    });
+    return hits;
+}
@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { VendorAttribute } from '../memory/vendorMemory';
+import { AuditEntry } from '../types';
+
+const DEFAULT_RULES_FILE = path.resolve(__dirname, '..', 'data', 'rules.json');
+
+/** Invoice header fields a rule may set. */
+export type RuleField = 'poNumber' | 'currency' | 'pricesIncludeVAT' | 'discountTerms';
+
+/**
+ * Conditions a rule checks. Every matcher given must hit for the rule to fire.
+ */
+export interface RuleMatcher {
+    /** The extracted invoice has no value for this field. */
+    fieldMissing?: 'poNumber' | 'currency';
+    /** rawText contains any of these substrings. */
+    rawTextContains?: string[];
+    /** rawText has a line containing any of these substrings; the trimmed line becomes the value. */
+    rawTextLine?: string[];
+    /** rawText states payment terms ("2% Skonto ... 10 Tagen", "net 30"); their text becomes the value. */
+    paymentTerms?: boolean;
+    /** rawText states one of these currencies, by code or symbol; the one printed next to the amounts becomes the value. */
+    currencyCodes?: string[];
+    /** Exactly one purchase order of the vendor covers all invoice lines; its number becomes the value. */
+    singlePurchaseOrder?: boolean;
+    /** Fires once per matching line item. */
+    lineItem?: {
+        skuMissing?: boolean;
+        descriptionContains?: string[];
+    };
+}
+
+export interface RuleAction {
+    field: RuleField | 'lineItems.sku';
+    /** Literal value to set. When omitted, the value produced by the matchers is used. */
+    value?: string | boolean;
+}
+
+export interface RuleDefinition {
+    id: string;
+    description: string;
+    /** Vendors the rule applies to. Omitted means all vendors. */
+    vendors?: string[];
+    match: RuleMatcher;
+    action: RuleAction;
+    /** "confident" (default) applies only once the correction pattern reaches the threshold. */
+    applyWhen?: 'always' | 'confident';
+    /** Correction memory pattern that gates this rule and is reinforced by feedback on it. */
+    patternId?: string;
+    /** Proposed correction text. Supports {value} and {description} placeholders. */
+    proposal?: string;
+    auditStep: Extract<AuditEntry['step'], 'detect' | 'po_match' | 'sku_map'>;
+    /** Audit details when the rule fires. Supports the same placeholders as `proposal`. */
+    audit: string;
+    /** Audit details when the rule's preconditions hold but its matchers miss. */
+    auditMiss?: string;
+    /** Suffix of the resolution memory ID (`VENDOR:<vendor>:<key>`). Defaults to the rule ID. */
+    resolutionKey?: string;
+    /** Vendor profile attribute reinforced with the matched value on feedback. */
+    vendorAttribute?: VendorAttribute;
+}
+
+/**
+ * Ordered set of rules evaluated by the agent for every invoice.
+ */
+export class RuleRegistry {
+    private readonly rules: RuleDefinition[] = [];
+
+    constructor(rules: RuleDefinition[] = []) {
+        rules.forEach(rule => this.register(rule));
+    }
+
+    register(rule: RuleDefinition): void {
+        validateRule(rule);
+        if (this.rules.some(r => r.id === rule.id)) {
+            throw new Error(`Duplicate rule id '${rule.id}'`);
+        }
+        this.rules.push(rule);
+    }
+
+    get(id: string): RuleDefinition | null {
+        return this.rules.find(r => r.id === id) || null;
+    }
+
+    all(): RuleDefinition[] {
+        return [...this.rules];
+    }
+
+    /**
+     * Rules in registration order that are in scope for the vendor.
+     */
+    forVendor(vendor: string): RuleDefinition[] {
+        return this.rules.filter(r => !r.vendors || r.vendors.includes(vendor));
+    }
+}
+
+/**
+ * Loads rules from a JSON file. Defaults to the bundled `data/rules.json`.
+ */
+export function loadRules(rulesPath: string = DEFAULT_RULES_FILE): RuleRegistry {
+    const rules = JSON.parse(fs.readFileSync(rulesPath, 'utf-8')) as RuleDefinition[];
+    if (!Array.isArray(rules)) {
+        throw new Error(`Rules file ${rulesPath} must contain an array of rules`);
+    }
+    return new RuleRegistry(rules);
+}
+
+/**
+ * Fills {value} and {description} placeholders of a rule template.
+ */
+export function renderTemplate(template: string, value: unknown, description: string = ''): string {
+    return template.replace(/\{value\}/g, String(value)).replace(/\{description\}/g, description);
+}
+
+const HEADER_FIELDS: RuleField[] = ['poNumber', 'currency', 'pricesIncludeVAT', 'discountTerms'];
+
+function validateRule(rule: RuleDefinition): void {
+    if (!rule || typeof rule.id !== 'string' || rule.id.length === 0) {
+        throw new Error("Rule is missing an 'id'");
+    }
+    if (!rule.match || Object.keys(rule.match).length === 0) {
+        throw new Error(`Rule '${rule.id}' has no matchers`);
+    }
+    if (!rule.action || !(HEADER_FIELDS as string[]).concat('lineItems.sku').includes(rule.action.field)) {
+        throw new Error(`Rule '${rule.id}' has an unsupported action field`);
+    }
+    if (rule.action.field === 'lineItems.sku' && !rule.match.lineItem) {
+        throw new Error(`Rule '${rule.id}' sets a line item field without a lineItem matcher`);
+    }
+    if (typeof rule.audit !== 'string' || !rule.auditStep) {
+        throw new Error(`Rule '${rule.id}' needs 'auditStep' and 'audit'`);
+    }
+}
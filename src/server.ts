@@ -0,0 +1,283 @@
+import * as http from 'http';
+import { InvoiceAgent } from './agent/invoiceAgent';
+import { auditRowsToCsv, auditRowsToJsonl } from './audit/auditLog';
+import { loadDeliveryNotes, loadExchangeRates, loadPurchaseOrders } from './dataLoaders';
+import { forgetCorrectionMemory, getCorrectionMemory } from './memory/correctionMemory';
+import { withMemorySource } from './memory/memoryJournal';
+import { JsonFileMemoryStore } from './memory/jsonFileStore';
+import { getMemoryStore, MemoryStore } from './memory/memoryStore';
+import { forgetResolution, getResolutionStats } from './memory/resolutionMemory';
+import { SqliteMemoryStore } from './memory/sqliteStore';
+import { loadTenants, TenantRegistry } from './tenants/tenantRegistry';
+import { forgetVendorMemory, getVendorMemory } from './memory/vendorMemory';
+import { loadVendors } from './vendors/vendorRegistry';
+import { AuditEntry, ExtractedInvoice } from './types';
+import { validateExtractedInvoice, validateHumanCorrection } from './validation/documentSchemas';
+import { formatIssues } from './validation/schema';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** Error that is reported to the client with its status code. */
+export class HttpError extends Error {
+    constructor(readonly status: number, message: string, readonly details: string[] = []) {
+        super(message);
+    }
+}
+
+// --- Request helpers ---
+
+function readJson(req: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            // Past the limit the rest is read and dropped, so the client gets the 413 instead of a reset
+            if (size > MAX_BODY_BYTES) {
+                chunks.length = 0;
+                reject(new HttpError(413, "Request body too large"));
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            if (size > MAX_BODY_BYTES) return;
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+            } catch {
+                reject(new HttpError(400, "Request body is not valid JSON"));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+function decodeSegment(segment: string): string {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        throw new HttpError(400, `Malformed path segment '${segment}'`);
+    }
+}
+
+function send(res: http.ServerResponse, status: number, body?: unknown): void {
+    if (body === undefined) {
+        res.writeHead(status).end();
+        return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+// --- Routing ---
+
+type MemoryResource = {
+    label: string;
+    get(key: string, store: MemoryStore, vendor?: string): unknown | null;
+    forget(key: string, store: MemoryStore, vendor?: string): boolean;
+};
+
+const MEMORY_RESOURCES: Record<string, MemoryResource> = {
+    vendors: {
+        label: "vendor",
+        get: (key, store) => getVendorMemory(key, store),
+        forget: (key, store) => forgetVendorMemory(key, store)
+    },
+    corrections: {
+        label: "correction",
+        // ?vendor= addresses the vendor-scoped pattern
+        get: (key, store, vendor) => getCorrectionMemory(key, store, vendor),
+        forget: (key, store, vendor) => forgetCorrectionMemory(key, store, vendor)
+    },
+    resolutions: {
+        label: "resolution",
+        get: (key, store) => getResolutionStats(key, store),
+        forget: (key, store) => forgetResolution(key, store)
+    }
+};
+
+const TENANT_HEADER = 'x-tenant-id';
+
+/**
+ * HTTP front end for one agent, or for one agent per tenant. With a tenant
+ * registry, every request except `/health` names its tenant in `X-Tenant-Id`.
+ *
+ * Requests that touch memory run one at a time, in arrival order, so a
+ * correction never interleaves with an invoice being processed.
+ */
+export class InvoiceApiServer {
+    readonly server: http.Server;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly target: InvoiceAgent | TenantRegistry) {
+        this.server = http.createServer((req, res) => {
+            this.handle(req, res).catch(error => {
+                if (error instanceof HttpError) {
+                    if (error.status === 413) res.setHeader('Connection', 'close');
+                    send(res, error.status, { error: error.message, details: error.details });
+                } else {
+                    send(res, 500, { error: (error as Error).message });
+                }
+            });
+        });
+    }
+
+    /**
+     * Starts listening; rejects when the port cannot be bound, e.g. `EADDRINUSE`.
+     */
+    listen(port: number, host: string = '127.0.0.1'): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, host, () => {
+                this.server.off('error', reject);
+                resolve();
+            });
+        });
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve, reject) => this.server.close(error => error ? reject(error) : resolve()));
+    }
+
+    private exclusive<T>(work: () => T | Promise<T>): Promise<T> {
+        const run = this.queue.then(work, work);
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    private async agentOf(req: http.IncomingMessage): Promise<InvoiceAgent> {
+        if (this.target instanceof InvoiceAgent) return this.target;
+        const tenantId = req.headers[TENANT_HEADER];
+        if (typeof tenantId !== 'string' || tenantId.length === 0) throw new HttpError(400, "Missing X-Tenant-Id header");
+        if (!this.target.config(tenantId)) throw new HttpError(404, `Unknown tenant '${tenantId}'`);
+        return this.target.agentFor(tenantId);
+    }
+
+    private vendorIdOf(agent: InvoiceAgent, vendor: string): string {
+        return agent.vendors.resolve(vendor)?.vendorId ?? vendor;
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const segments = url.pathname.split('/').filter(s => s.length > 0).map(decodeSegment);
+        const method = req.method ?? 'GET';
+
+        if (url.pathname === '/health') {
+            if (method !== 'GET') throw new HttpError(405, `${method} not allowed on /health`);
+            if (!(this.target instanceof InvoiceAgent) && req.headers[TENANT_HEADER] === undefined) {
+                send(res, 200, { status: "ok" });
+                return;
+            }
+            const agent = await this.agentOf(req);
+            send(res, 200, { status: "ok", pendingReviews: agent.reviewQueue.pending().length });
+            return;
+        }
+
+        if (url.pathname === '/invoices') {
+            if (method !== 'POST') throw new HttpError(405, `${method} not allowed on /invoices`);
+            const agent = await this.agentOf(req);
+            const body = await readJson(req);
+            const validation = validateExtractedInvoice(body);
+            if (!validation.ok) throw new HttpError(400, "Invalid invoice", formatIssues(validation.issues));
+            const simulate = url.searchParams.get('simulateFeedback') === 'true';
+            // The agent normalizes on its own; it needs the date as sent to learn the vendor's format
+            const result = await this.exclusive(() => agent.process(body as ExtractedInvoice, simulate));
+            send(res, 200, result);
+            return;
+        }
+
+        if (url.pathname === '/corrections') {
+            if (method !== 'POST') throw new HttpError(405, `${method} not allowed on /corrections`);
+            const agent = await this.agentOf(req);
+            const validation = validateHumanCorrection(await readJson(req));
+            if (!validation.ok) throw new HttpError(400, "Invalid correction", formatIssues(validation.issues));
+            const correction = validation.value;
+            await this.exclusive(() => agent.applyFeedback(correction));
+            send(res, 200, { status: "applied", correctionId: correction.correctionId });
+            return;
+        }
+
+        if (url.pathname === '/audit') {
+            if (method !== 'GET') throw new HttpError(405, `${method} not allowed on /audit`);
+            const agent = await this.agentOf(req);
+            const param = (name: string) => url.searchParams.get(name) ?? undefined;
+            const format = param('format') ?? 'json';
+            if (!['json', 'jsonl', 'csv'].includes(format)) throw new HttpError(400, `Unknown format '${format}', expected json, jsonl or csv`);
+            const vendor = param('vendor');
+            const rows = await this.exclusive(() => agent.auditLog.query({
+                runId: param('run'),
+                invoiceId: param('invoice'),
+                vendor: vendor === undefined ? undefined : this.vendorIdOf(agent, vendor),
+                step: param('step') as AuditEntry['step'] | undefined,
+                patternId: param('pattern'),
+                from: param('from'),
+                to: param('to')
+            }));
+            if (format === 'json') {
+                send(res, 200, rows);
+            } else {
+                const contentType = format === 'csv' ? 'text/csv' : 'application/x-ndjson';
+                res.writeHead(200, { 'Content-Type': contentType }).end(format === 'csv' ? auditRowsToCsv(rows) : auditRowsToJsonl(rows));
+            }
+            return;
+        }
+
+        if (segments[0] === 'memory' && segments.length === 3 && MEMORY_RESOURCES[segments[1]]) {
+            const agent = await this.agentOf(req);
+            const resource = MEMORY_RESOURCES[segments[1]];
+            // Vendor memory is keyed by vendor ID; accept any known spelling
+            const key = segments[1] === 'vendors' ? this.vendorIdOf(agent, segments[2]) : segments[2];
+            const vendorParam = url.searchParams.get('vendor');
+            const vendor = vendorParam === null ? undefined : this.vendorIdOf(agent, vendorParam);
+            if (method === 'GET') {
+                const entry = await this.exclusive(() => resource.get(key, agent.store, vendor));
+                if (entry === null) throw new HttpError(404, `No ${resource.label} memory '${key}'`);
+                send(res, 200, entry);
+            } else if (method === 'DELETE') {
+                const deleted = await this.exclusive(() =>
+                    withMemorySource(agent.store, { type: "manual", id: "api" }, () => resource.forget(key, agent.store, vendor)));
+                if (!deleted) throw new HttpError(404, `No ${resource.label} memory '${key}'`);
+                send(res, 204);
+            } else {
+                throw new HttpError(405, `${method} not allowed on ${url.pathname}`);
+            }
+            return;
+        }
+
+        throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+    }
+}
+
+// --- Main ---
+async function startServer() {
+    const shared = {
+        vendors: process.env.VENDORS ? loadVendors(process.env.VENDORS) : [],
+        purchaseOrders: process.env.PURCHASE_ORDERS ? loadPurchaseOrders(process.env.PURCHASE_ORDERS) : [],
+        deliveryNotes: process.env.DELIVERY_NOTES ? loadDeliveryNotes(process.env.DELIVERY_NOTES) : [],
+        exchangeRates: process.env.EXCHANGE_RATES ? loadExchangeRates(process.env.EXCHANGE_RATES) : [],
+        baseCurrency: process.env.BASE_CURRENCY
+    };
+    let target: InvoiceAgent | TenantRegistry;
+    if (process.env.TENANTS) {
+        const baseline = process.env.BASELINE;
+        target = new TenantRegistry({
+            kind: process.env.MEMORY_STORE === 'sqlite' ? "sqlite" : "json",
+            tenants: loadTenants(process.env.TENANTS),
+            baseline: !baseline ? undefined : baseline.endsWith('.sqlite') ? await SqliteMemoryStore.open(baseline) : new JsonFileMemoryStore(baseline),
+            agentConfig: shared
+        });
+    } else {
+        const store = process.env.MEMORY_STORE === 'sqlite' ? await SqliteMemoryStore.open() : getMemoryStore();
+        target = new InvoiceAgent({ memoryStore: store, ...shared });
+    }
+    const api = new InvoiceApiServer(target);
+    const port = Number(process.env.PORT ?? 3000);
+    await api.listen(port, process.env.HOST);
+    console.log(`Invoice agent listening on http://${process.env.HOST ?? '127.0.0.1'}:${port}`);
+}
+
+if (require.main === module) {
+    startServer().catch(error => {
+        console.error(`Failed to start: ${(error as Error).message}`);
+        process.exitCode = 1;
+    });
+}
@@ -0,0 +1,86 @@
+// --- Exact money arithmetic in integer minor units (e.g. cents) ---
+
+/**
+ * How a fraction of a minor unit is rounded:
+ * - `half_up`: half away from zero (commercial rounding)
+ * - `half_even`: half to the even neighbour (banker's rounding)
+ * - `truncate`: toward zero
+ */
+export type RoundingMode = "half_up" | "half_even" | "truncate";
+
+export const ROUNDING_MODES: RoundingMode[] = ["half_up", "half_even", "truncate"];
+
+/** Whether VAT is rounded per line and summed, or computed once on the summed lines. */
+export type TaxRounding = "per_line" | "on_total";
+
+/** Minor unit digits of currencies that do not use two. */
+const CURRENCY_DECIMALS: Record<string, number> = {
+    JPY: 0, KRW: 0, ISK: 0, CLP: 0, VND: 0,
+    BHD: 3, JOD: 3, KWD: 3, OMR: 3, TND: 3
+};
+
+/**
+ * Minor unit digits of an ISO currency code: 2 unless the currency is known to differ.
+ */
+export function currencyDecimals(currency: string | null | undefined): number {
+    return currency ? CURRENCY_DECIMALS[currency.toUpperCase()] ?? 2 : 2;
+}
+
+/**
+ * Converts an amount to integer minor units, rounding half away from zero unless another mode is given.
+ * `toPrecision` strips binary noise first, so 1.005 becomes 101 cents rather than 100.
+ */
+export function toMinorUnits(amount: number, decimals: number = 2, mode: RoundingMode = "half_up"): number {
+    const scaled = Number((Math.abs(amount) * 10 ** decimals).toPrecision(15));
+    let rounded: number;
+    if (mode === "truncate") {
+        rounded = Math.trunc(scaled);
+    } else if (mode === "half_even" && scaled - Math.floor(scaled) === 0.5) {
+        rounded = Math.floor(scaled) % 2 === 0 ? Math.floor(scaled) : Math.ceil(scaled);
+    } else {
+        rounded = Math.round(scaled);
+    }
+    return Math.sign(amount) * rounded || 0;
+}
+
+export function fromMinorUnits(minor: number, decimals: number = 2): number {
+    return minor / 10 ** decimals;
+}
+
+/**
+ * Integer division rounding half away from zero (commercial rounding).
+ */
+export function roundDiv(numerator: number, denominator: number): number {
+    let quotient = Math.trunc(numerator / denominator);
+    const remainder = numerator - quotient * denominator;
+    if (2 * Math.abs(remainder) >= Math.abs(denominator)) {
+        quotient += Math.sign(numerator) * Math.sign(denominator);
+    }
+    return quotient;
+}
+
+/**
+ * Parses amounts written as "1600", "900.00", "1.234,56" or "1,234.56".
+ * Returns null when the text is not a number.
+ */
+export function parseAmount(text: string): number | null {
+    let cleaned = text.trim().replace(/[\s ']/g, '');
+    if (!/^-?[\d.,]+$/.test(cleaned) || !/\d/.test(cleaned)) return null;
+
+    const lastDot = cleaned.lastIndexOf('.');
+    const lastComma = cleaned.lastIndexOf(',');
+    if (lastDot >= 0 && lastComma >= 0) {
+        // Whichever separator comes last is the decimal separator
+        const decimalSep = lastDot > lastComma ? '.' : ',';
+        const thousandsSep = decimalSep === '.' ? ',' : '.';
+        cleaned = cleaned.split(thousandsSep).join('').replace(decimalSep, '.');
+    } else if (lastComma >= 0) {
+        cleaned = /^-?\d{1,3}(,\d{3})+$/.test(cleaned) ? cleaned.replace(/,/g, '') : cleaned.replace(',', '.');
+    } else if (/^-?\d{1,3}(\.\d{3}){2,}$/.test(cleaned)) {
+        // "1.234.567" can only be thousands grouping; a single dot is read as decimal
+        cleaned = cleaned.replace(/\./g, '');
+    }
+
+    const value = Number(cleaned);
+    return Number.isFinite(value) ? value : null;
+}
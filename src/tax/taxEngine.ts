@@ -0,0 +1,171 @@
+import { LineItem } from '../types';
+import { fromMinorUnits, parseAmount, roundDiv, TaxRounding, toMinorUnits } from './money';
+
+export interface TaxAmounts {
+    net: number;
+    tax: number;
+    gross: number;
+}
+
+export interface LineTax extends TaxAmounts {
+    lineIndex: number;
+    vatRate: number;
+}
+
+export type VatRateSource = "line" | "rawText" | "vendorMemory" | "default";
+
+export interface TaxDiscrepancy {
+    kind: "total_mismatch" | "stated_total_is_net";
+    expected: number;
+    actual: number;
+    difference: number;
+    details: string;
+}
+
+export interface TaxBreakdown {
+    /** Invoice-level rate in percent; lines may override it. */
+    vatRate: number;
+    rateSource: VatRateSource;
+    pricesIncludeVAT: boolean;
+    taxRounding: TaxRounding;
+    lines: LineTax[];
+    /** Sum of the rounded line amounts, or with `on_total` the tax on the summed lines per rate. */
+    totals: TaxAmounts;
+    /** Total printed on the document, if one was found in rawText. */
+    statedTotal: number | null;
+    discrepancies: TaxDiscrepancy[];
+}
+
+export interface TaxInput {
+    lineItems: LineItem[];
+    pricesIncludeVAT: boolean;
+    vatRate: number;
+    rateSource: VatRateSource;
+    statedTotal?: number | null;
+    /** Defaults to `per_line`. */
+    taxRounding?: TaxRounding;
+    /** Minor unit digits of the currency (2 for EUR). */
+    decimals?: number;
+}
+
+const VAT_RATE_PATTERNS = [
+    /(?:MwSt|USt|VAT|TVA|IVA)\.?\s*:?\s*(\d{1,2}(?:[.,]\d{1,2})?)\s*%/i,
+    /(\d{1,2}(?:[.,]\d{1,2})?)\s*%\s*(?:MwSt|USt|VAT|TVA|IVA)\b/i
+];
+
+const STATED_TOTAL_PATTERN = /^\s*(?:Total|Gesamt(?:betrag)?|Summe|Amount due|Rechnungsbetrag)\s*:?\s*(-?[\d.,' ]*\d)/im;
+
+/**
+ * Parses a VAT rate such as "MwSt. 19%" or "20% VAT" from rawText, in percent.
+ */
+export function parseVatRate(rawText: string): number | null {
+    for (const pattern of VAT_RATE_PATTERNS) {
+        const match = rawText.match(pattern);
+        if (match) return parseAmount(match[1]);
+    }
+    return null;
+}
+
+/**
+ * Parses the document total, e.g. "Total: 900.00 EUR" or "Gesamtbetrag: 1.234,56".
+ */
+export function parseStatedTotal(rawText: string): number | null {
+    const match = rawText.match(STATED_TOTAL_PATTERN);
+    return match ? parseAmount(match[1]) : null;
+}
+
+/**
+ * Splits one amount into net, tax and gross at the given rate.
+ * With `amountIncludesVAT` the amount is the gross and net is derived from it,
+ * otherwise the amount is the net. All rounding is half away from zero on minor units.
+ */
+export function splitAmount(amount: number, vatRate: number, amountIncludesVAT: boolean, decimals: number = 2): TaxAmounts {
+    const minor = toMinorUnits(amount, decimals);
+    const rateBasisPoints = toMinorUnits(vatRate, 2);
+    let net: number;
+    let tax: number;
+    if (amountIncludesVAT) {
+        net = roundDiv(minor * 10000, 10000 + rateBasisPoints);
+        tax = minor - net;
+    } else {
+        net = minor;
+        tax = roundDiv(minor * rateBasisPoints, 10000);
+    }
+    return {
+        net: fromMinorUnits(net, decimals),
+        tax: fromMinorUnits(tax, decimals),
+        gross: fromMinorUnits(net + tax, decimals)
+    };
+}
+
+/**
+ * Invoice totals with VAT computed once per rate on the summed line totals,
+ * the way vendors that do not round per line arrive at them.
+ */
+export function taxOnTotal(lineItems: LineItem[], vatRate: number, pricesIncludeVAT: boolean, decimals: number = 2): TaxAmounts {
+    const byRate = new Map<number, number>();
+    for (const li of lineItems) {
+        const rate = li.vatRate ?? vatRate;
+        byRate.set(rate, (byRate.get(rate) ?? 0) + toMinorUnits(li.totalPrice, decimals));
+    }
+    const totals = { net: 0, tax: 0, gross: 0 };
+    for (const [rate, minor] of byRate) {
+        const split = splitAmount(fromMinorUnits(minor, decimals), rate, pricesIncludeVAT, decimals);
+        totals.net += toMinorUnits(split.net, decimals);
+        totals.tax += toMinorUnits(split.tax, decimals);
+        totals.gross += toMinorUnits(split.gross, decimals);
+    }
+    return { net: fromMinorUnits(totals.net, decimals), tax: fromMinorUnits(totals.tax, decimals), gross: fromMinorUnits(totals.gross, decimals) };
+}
+
+/**
+ * Derives net, tax and gross per line and for the invoice, and compares the result
+ * with the stated total. Line items may carry their own `vatRate`.
+ */
+export function computeTax(input: TaxInput): TaxBreakdown {
+    const decimals = input.decimals ?? 2;
+    const lines = input.lineItems.map((li, lineIndex): LineTax => {
+        const vatRate = li.vatRate ?? input.vatRate;
+        return { lineIndex, vatRate, ...splitAmount(li.totalPrice, vatRate, input.pricesIncludeVAT, decimals) };
+    });
+
+    const sum = (key: keyof TaxAmounts) => fromMinorUnits(lines.reduce((acc, l) => acc + toMinorUnits(l[key], decimals), 0), decimals);
+    const taxRounding = input.taxRounding ?? "per_line";
+    const totals: TaxAmounts = taxRounding === "on_total"
+        ? taxOnTotal(input.lineItems, input.vatRate, input.pricesIncludeVAT, decimals)
+        : { net: sum('net'), tax: sum('tax'), gross: sum('gross') };
+
+    const statedTotal = input.statedTotal ?? null;
+    const discrepancies: TaxDiscrepancy[] = [];
+    if (statedTotal !== null && toMinorUnits(statedTotal, decimals) !== toMinorUnits(totals.gross, decimals)) {
+        const difference = fromMinorUnits(toMinorUnits(statedTotal, decimals) - toMinorUnits(totals.gross, decimals), decimals);
+        if (!input.pricesIncludeVAT && toMinorUnits(statedTotal, decimals) === toMinorUnits(totals.net, decimals)) {
+            discrepancies.push({
+                kind: "stated_total_is_net",
+                expected: totals.gross,
+                actual: statedTotal,
+                difference,
+                details: `Stated total ${statedTotal} equals the net amount; ${totals.tax} VAT at ${input.vatRate}% is missing or prices already include VAT`
+            });
+        } else {
+            discrepancies.push({
+                kind: "total_mismatch",
+                expected: totals.gross,
+                actual: statedTotal,
+                difference,
+                details: `Stated total ${statedTotal} differs from computed gross ${totals.gross} by ${difference}`
+            });
+        }
+    }
+
+    return {
+        vatRate: input.vatRate,
+        rateSource: input.rateSource,
+        pricesIncludeVAT: input.pricesIncludeVAT,
+        taxRounding,
+        lines,
+        totals,
+        statedTotal,
+        discrepancies
+    };
+}
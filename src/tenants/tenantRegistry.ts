@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentThresholds, InvoiceAgent, InvoiceAgentConfig } from '../agent/invoiceAgent';
+import { DecisionPolicy } from '../decision/decisionPolicy';
+import { ConfidenceModel } from '../memory/confidenceModel';
+import { JsonFileMemoryStore } from '../memory/jsonFileStore';
+import { LayeredMemoryStore } from '../memory/layeredStore';
+import { MemoryStore } from '../memory/memoryStore';
+import { SqliteMemoryStore } from '../memory/sqliteStore';
+import { VendorIdentity } from '../vendors/vendorRegistry';
+
+export interface TenantConfig {
+    tenantId: string;
+    thresholds?: Partial<AgentThresholds>;
+    /** E.g. `{ "reviewAmountAbove": 10000 }`; merged over the shared agent settings. */
+    decisionPolicy?: Partial<DecisionPolicy>;
+    confidence?: Partial<ConfidenceModel>;
+    /** Currency amounts are converted into for the decision; overrides the shared setting. */
+    baseCurrency?: string;
+    /** Read learned memory the tenant lacks from the shared baseline (default true when one is configured). */
+    useBaseline?: boolean;
+}
+
+export type TenantStoreKind = "json" | "sqlite";
+
+export interface TenantStoreOptions {
+    kind?: TenantStoreKind;
+    /** Directory holding `tenants/<tenantId>/` (JSON) or `tenants/<tenantId>.sqlite`. Defaults to the working directory. */
+    root?: string;
+}
+
+const TENANT_ID = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+/**
+ * Rejects IDs that could escape the tenant directory, such as "../other".
+ */
+export function assertTenantId(tenantId: string): string {
+    if (!TENANT_ID.test(tenantId)) throw new Error(`Invalid tenant ID '${tenantId}': use letters, digits, '-' and '_'`);
+    return tenantId;
+}
+
+/**
+ * Loads tenant settings, e.g. `[{ "tenantId": "acme-de", "thresholds": { "autoApply": 0.7 } }]`.
+ */
+export function loadTenants(filePath: string): TenantConfig[] {
+    const tenants = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as TenantConfig[];
+    if (!Array.isArray(tenants)) throw new Error(`${filePath} must contain a JSON array`);
+    tenants.forEach(t => assertTenantId(t.tenantId));
+    return tenants;
+}
+
+/**
+ * Opens the tenant's own store. Each tenant has separate files, so nothing one
+ * tenant learns is visible to another.
+ */
+export async function openTenantStore(tenantId: string, options: TenantStoreOptions = {}): Promise<MemoryStore> {
+    assertTenantId(tenantId);
+    const directory = path.resolve(options.root ?? process.cwd(), 'tenants');
+    if ((options.kind ?? "json") === "sqlite") {
+        fs.mkdirSync(directory, { recursive: true });
+        return SqliteMemoryStore.open(path.join(directory, `${tenantId}.sqlite`));
+    }
+    const tenantDirectory = path.join(directory, tenantId);
+    fs.mkdirSync(tenantDirectory, { recursive: true });
+    return new JsonFileMemoryStore(tenantDirectory);
+}
+
+export interface TenantRegistryOptions extends TenantStoreOptions {
+    /** Known tenants. When given, other tenant IDs are refused. */
+    tenants?: TenantConfig[];
+    /** Shared, read-only memory that tenants fall back to. */
+    baseline?: MemoryStore;
+    /** Settings every tenant's agent shares (purchase orders, rules, ...). Vendor master data seeds each tenant's own registry. */
+    agentConfig?: Omit<InvoiceAgentConfig, 'memoryStore' | 'thresholds' | 'confidence' | 'tenantId' | 'vendors'> & { vendors?: VendorIdentity[] };
+}
+
+/**
+ * One agent per tenant, each on the tenant's own store and with the tenant's own
+ * thresholds. Agents are created on first use and kept.
+ */
+export class TenantRegistry {
+    private readonly agents = new Map<string, Promise<InvoiceAgent>>();
+
+    constructor(private readonly options: TenantRegistryOptions = {}) {}
+
+    config(tenantId: string): TenantConfig | null {
+        const { tenants } = this.options;
+        if (!tenants) return TENANT_ID.test(tenantId) ? { tenantId } : null;
+        return tenants.find(t => t.tenantId === tenantId) ?? null;
+    }
+
+    agentFor(tenantId: string): Promise<InvoiceAgent> {
+        const config = this.config(tenantId);
+        if (!config) return Promise.reject(new Error(`Unknown tenant '${tenantId}'`));
+        let agent = this.agents.get(tenantId);
+        if (!agent) {
+            agent = this.createAgent(config);
+            this.agents.set(tenantId, agent);
+            // A failed open may succeed on the next request
+            agent.catch(() => this.agents.delete(tenantId));
+        }
+        return agent;
+    }
+
+    /**
+     * Closes every tenant store. The baseline belongs to the caller.
+     */
+    async close(): Promise<void> {
+        const agents = await Promise.allSettled(this.agents.values());
+        for (const agent of agents) {
+            if (agent.status === 'fulfilled') agent.value.store.close();
+        }
+        this.agents.clear();
+    }
+
+    private async createAgent(config: TenantConfig): Promise<InvoiceAgent> {
+        const own = await openTenantStore(config.tenantId, this.options);
+        const { baseline } = this.options;
+        const store = baseline && config.useBaseline !== false ? new LayeredMemoryStore(own, baseline) : own;
+        return new InvoiceAgent({
+            ...this.options.agentConfig,
+            memoryStore: store,
+            thresholds: config.thresholds,
+            decisionPolicy: { ...this.options.agentConfig?.decisionPolicy, ...config.decisionPolicy },
+            confidence: config.confidence,
+            baseCurrency: config.baseCurrency ?? this.options.agentConfig?.baseCurrency,
+            tenantId: config.tenantId
+        });
+    }
+}
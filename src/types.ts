@@ -0,0 +1,200 @@
+import { TaxAmounts, TaxBreakdown } from './tax/taxEngine';
+import { ThreeWayMatchResult } from './matching/threeWayMatch';
+import { DuplicateCheckResult } from './duplicates/duplicateDetector';
+import { ValidationIssue } from './validation/schema';
+import { VendorAttribute } from './memory/vendorMemory';
+import { PaymentSchedule } from './payments/paymentTerms';
+import { DecisionExplanation } from './decision/decisionPolicy';
+import { ExtractableField, FieldProvenance } from './extraction/labelExtractor';
+import { ArithmeticCheck } from './validation/arithmetic';
+import { CurrencyCheck } from './currency/currency';
+
+// --- Shared invoice, purchase order and result types ---
+
+export interface LineItem {
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    totalPrice: number;
+    sku?: string | null;
+    /** VAT rate in percent for this line, when it differs from the invoice rate. */
+    vatRate?: number;
+}
+
+export interface POLineItem {
+    sku: string;
+    description: string;
+    quantity: number;
+    unitPrice: number;
+}
+
+export interface PurchaseOrder {
+    poNumber: string;
+    vendor: string;
+    createdDate: string;
+    status: string;
+    /** ISO code the PO prices are in; absent on POs that do not state one. */
+    currency?: string;
+    lineItems: POLineItem[];
+}
+
+/** One published rate: 1 `base` buys `rate` units of `currency` on `date`. */
+export interface ExchangeRate {
+    date: string;
+    base: string;
+    currency: string;
+    rate: number;
+}
+
+export interface DeliveryNoteLineItem {
+    sku: string | null;
+    description: string;
+    quantity: number;
+}
+
+export interface DeliveryNote {
+    deliveryNoteNumber: string;
+    vendor: string;
+    poNumber: string | null;
+    deliveryDate: string;
+    lineItems: DeliveryNoteLineItem[];
+}
+
+export interface InvoiceFields {
+    invoiceNumber: string;
+    invoiceDate: string;
+    currency: string | null;
+    poNumber?: string | null;
+    lineItems: LineItem[];
+}
+
+export interface ExtractedInvoice {
+    invoiceId: string;
+    vendor: string;
+    fields: InvoiceFields;
+    rawText: string;
+}
+
+export interface FieldCorrection {
+    field: string;
+    originalValue: unknown;
+    correctedValue: unknown;
+    reason: string;
+}
+
+export interface HumanCorrection {
+    correctionId: string;
+    invoiceId: string;
+    vendor: string;
+    fieldsCorrected: FieldCorrection[];
+    finalDecision: "approved" | "rejected";
+    timestamp: string;
+    /** Text of the corrected document, from which raw-text cues are learned. */
+    rawText?: string;
+}
+
+/** A memory entry an audited step relied on, with the confidence it had at the time. */
+export interface AuditMemoryRef {
+    collection: "vendor" | "correction";
+    /** Key in the collection: vendor ID, or `vendorId|patternId` / `patternId` for patterns. */
+    key: string;
+    /** Profile attribute, e.g. "serviceDateLabel" or "skuMappings['freight']". */
+    attribute?: string;
+    confidence: number;
+}
+
+/** Structured payload of an audit entry; which fields are set depends on the step. */
+export interface AuditData {
+    ruleId?: string;
+    patternId?: string;
+    field?: string;
+    oldValue?: unknown;
+    newValue?: unknown;
+    /** Memory that caused an auto-applied change. */
+    memory?: AuditMemoryRef;
+    [key: string]: unknown;
+}
+
+export interface AuditEntry {
+    step: "validate" | "ingest" | "extract" | "recall" | "apply" | "decide" | "learn" | "duplicate_check" | "detect" | "po_match" | "sku_map" | "match" | "tax" | "arithmetic" | "currency" | "payment";
+    timestamp: string;
+    details: string;
+    data?: AuditData;
+}
+
+export interface NormalizedInvoice {
+    /** Canonical vendor name from the vendor registry. */
+    vendor: string;
+    vendorId: string;
+    invoiceNumber: string;
+    invoiceDate: string;
+    currency: string | null;
+    serviceDateLabel: string | null;
+    pricesIncludeVAT: boolean;
+    poNumber: string | null;
+    discountTerms: string | null;
+    lineItems: LineItem[];
+    /** Net, tax and gross derived by the tax engine, when a VAT rate is known. */
+    totals: TaxAmounts | null;
+    /** Date the service was rendered, read from rawText. */
+    serviceDate: string | null;
+    /** Due date as printed in rawText. */
+    dueDate: string | null;
+    /** Vendor VAT or tax ID as printed in rawText. */
+    taxId: string | null;
+    /** Totals as printed in rawText; `totals` holds the recomputed ones. */
+    statedTotals: Partial<TaxAmounts> | null;
+    /** Label, line and source of each value read from rawText. */
+    provenance: Partial<Record<ExtractableField, FieldProvenance>>;
+}
+
+/**
+ * One change the agent proposes to the normalized invoice.
+ */
+export interface ProposedCorrection {
+    /** Stable within a run result, e.g. `p1`. */
+    proposalId: string;
+    /** Field path in the normalized invoice, e.g. `poNumber` or `lineItems[0].sku`. */
+    field: string;
+    oldValue: unknown;
+    newValue: unknown;
+    /** Human-readable summary, e.g. "Set poNumber = PO-2025-001". */
+    description: string;
+    /** Correction Memory pattern behind the proposal, if any. */
+    patternId: string | null;
+    /** Why the change is proposed (rule or memory description). */
+    reason: string;
+    /** Memory confidence backing the proposal at decision time. */
+    confidence: number;
+    /** True when the new value was already written into `normalizedInvoice`. */
+    autoApplied: boolean;
+    /** Resolution Memory ID that decisions on this proposal are recorded under. */
+    memoryId: string;
+    /** Vendor Memory attribute the value is remembered as on approval. */
+    vendorAttribute?: VendorAttribute;
+    /** Entry within the attribute, i.e. the line description for `skuMappings`. */
+    attributeKey?: string;
+}
+
+export interface InvoiceRunResult {
+    normalizedInvoice: NormalizedInvoice;
+    proposedCorrections: ProposedCorrection[];
+    /** Problems with the input document; a non-empty list means it was rejected unprocessed. */
+    validationIssues: ValidationIssue[];
+    duplicateCheck: DuplicateCheckResult | null;
+    match: ThreeWayMatchResult | null;
+    tax: TaxBreakdown | null;
+    /** Line and header arithmetic findings, and the rounding the amounts reveal. */
+    arithmetic: ArithmeticCheck | null;
+    /** Currency the text states, conflicts with the extracted or PO currency, and the amount in the base currency. */
+    currency: CurrencyCheck | null;
+    /** Discount deadline, discounted amount and net due date, when payment terms are known. */
+    payment: PaymentSchedule | null;
+    requiresHumanReview: boolean;
+    reasoning: string;
+    confidenceScore: number;
+    /** The factors behind `requiresHumanReview`, and which of them forced review. */
+    decision: DecisionExplanation;
+    memoryUpdates: string[];
+    auditTrail: AuditEntry[];
+}
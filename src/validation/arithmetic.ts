@@ -0,0 +1,176 @@
+import { LineItem } from '../types';
+import { splitAmount, TaxAmounts, taxOnTotal } from '../tax/taxEngine';
+import { fromMinorUnits, ROUNDING_MODES, RoundingMode, TaxRounding, toMinorUnits } from '../tax/money';
+
+// --- Arithmetic consistency of line items and stated totals ---
+
+export interface ArithmeticTolerances {
+    /** Allowed difference between a line total and quantity × unit price, in minor units of the invoice currency. */
+    lineMinorUnits: number;
+    /** Allowed difference between a stated total and the sum it should equal, in minor units. */
+    totalMinorUnits: number;
+}
+
+export const DEFAULT_ARITHMETIC_TOLERANCES: ArithmeticTolerances = {
+    lineMinorUnits: 0,
+    totalMinorUnits: 0
+};
+
+/**
+ * - `line_total_mismatch`: quantity × unit price is not the line total
+ * - `line_total_is_gross`: the line total is quantity × unit price plus VAT, although prices are net
+ * - `net_sum_mismatch`: the stated net is not the sum of the line totals
+ * - `gross_sum_mismatch`: the stated gross is not the sum of VAT-inclusive line totals (checked when no VAT rate is known)
+ * - `lines_are_gross` / `lines_are_net`: the line totals add up to the other stated total than `pricesIncludeVAT` says
+ * - `header_sum_mismatch`: stated net plus VAT is not the stated gross
+ * - `tax_sum_mismatch`: the stated VAT is not the VAT on the lines
+ */
+export type ArithmeticFindingKind =
+    | "line_total_mismatch" | "line_total_is_gross" | "net_sum_mismatch" | "gross_sum_mismatch"
+    | "lines_are_gross" | "lines_are_net" | "header_sum_mismatch" | "tax_sum_mismatch";
+
+export interface ArithmeticFinding {
+    kind: ArithmeticFindingKind;
+    lineIndex?: number;
+    expected: number;
+    actual: number;
+    difference: number;
+    /** Rounding that would explain the difference, if one does. */
+    rounding?: RoundingMode | TaxRounding;
+    details: string;
+}
+
+/** How the vendor rounds, as far as one invoice shows it. */
+export interface RoundingObservation {
+    lineRounding?: RoundingMode;
+    taxRounding?: TaxRounding;
+}
+
+export interface ArithmeticInput {
+    lineItems: LineItem[];
+    pricesIncludeVAT: boolean;
+    /** Totals as printed on the document. */
+    stated: Partial<TaxAmounts> | null;
+    /** Invoice VAT rate in percent; without one, the stated VAT is not checked. */
+    vatRate: number | null;
+    /** Minor unit digits of the invoice currency (2 for EUR, 0 for JPY). */
+    decimals?: number;
+    /** Rounding expected of the vendor; commercial rounding per line by default. */
+    lineRounding?: RoundingMode;
+    taxRounding?: TaxRounding;
+}
+
+export interface ArithmeticCheck {
+    findings: ArithmeticFinding[];
+    /** Rounding the amounts reveal, where the possible roundings would have given different results. */
+    observed: RoundingObservation;
+}
+
+/**
+ * The one rounding mode a line total reveals, or undefined when several modes give
+ * the same result or none does. Commercial rounding wins a tie with banker's rounding.
+ */
+function revealedMode(byMode: Record<RoundingMode, number>, actual: number): RoundingMode | undefined {
+    const matching = ROUNDING_MODES.filter(mode => byMode[mode] === actual);
+    if (matching.length === 1 || (matching.length === 2 && matching.includes("half_up"))) return matching[0];
+    return undefined;
+}
+
+/**
+ * Checks that every line total is quantity × unit price and that the line totals
+ * add up to the totals printed on the document, in the currency's minor units.
+ * Net and gross mixed up, in a line or in the header, is reported as such.
+ */
+export function checkArithmetic(input: ArithmeticInput, tolerances: ArithmeticTolerances = DEFAULT_ARITHMETIC_TOLERANCES): ArithmeticCheck {
+    const decimals = input.decimals ?? 2;
+    const minor = (value: number) => toMinorUnits(value, decimals);
+    const amount = (value: number) => fromMinorUnits(value, decimals);
+    const lineRounding = input.lineRounding ?? "half_up";
+    const taxRounding = input.taxRounding ?? "per_line";
+    const findings: ArithmeticFinding[] = [];
+    const report = (kind: ArithmeticFindingKind, expected: number, actual: number, details: string, extra: Partial<ArithmeticFinding> = {}) =>
+        findings.push({ kind, ...extra, expected: amount(expected), actual: amount(actual), difference: amount(actual - expected), details });
+
+    // Lines
+    const lineModes = new Set<RoundingMode>();
+    input.lineItems.forEach((li, lineIndex) => {
+        const product = li.quantity * li.unitPrice;
+        const byMode = Object.fromEntries(ROUNDING_MODES.map(mode => [mode, toMinorUnits(product, decimals, mode)])) as Record<RoundingMode, number>;
+        const actual = minor(li.totalPrice);
+        const revealed = revealedMode(byMode, actual);
+        if (revealed) lineModes.add(revealed);
+
+        const expected = byMode[lineRounding];
+        if (Math.abs(actual - expected) <= tolerances.lineMinorUnits) return;
+        const rate = li.vatRate ?? input.vatRate;
+        if (!input.pricesIncludeVAT && rate !== null && rate > 0 && actual === minor(splitAmount(amount(expected), rate, false, decimals).gross)) {
+            report("line_total_is_gross", expected, actual, `Line ${lineIndex + 1} total ${li.totalPrice} is ${li.quantity} × ${li.unitPrice} plus ${rate}% VAT, but prices are net`, { lineIndex });
+            return;
+        }
+        const rounding = ROUNDING_MODES.find(mode => byMode[mode] === actual);
+        const explained = rounding ? ` (${rounding.replace("_", " ")} rounding)` : "";
+        report("line_total_mismatch", expected, actual, `Line ${lineIndex + 1} total ${li.totalPrice} differs from ${li.quantity} × ${li.unitPrice} = ${amount(expected)}${explained}`, { lineIndex, ...(rounding ? { rounding } : {}) });
+    });
+
+    // Header: the lines add up to the net, or to the gross when prices include VAT
+    const stated = input.stated ?? {};
+    const lineSum = input.lineItems.reduce((sum, li) => sum + minor(li.totalPrice), 0);
+    const off = (a: number, b: number) => Math.abs(a - b) > tolerances.totalMinorUnits;
+    const [sumKey, otherKey]: Array<keyof TaxAmounts> = input.pricesIncludeVAT ? ["gross", "net"] : ["net", "gross"];
+    const sumTotal = stated[sumKey];
+    const otherTotal = stated[otherKey];
+    if (sumTotal !== undefined && off(minor(sumTotal), lineSum)) {
+        if (otherTotal !== undefined && !off(minor(otherTotal), lineSum)) {
+            const kind = input.pricesIncludeVAT ? "lines_are_net" : "lines_are_gross";
+            const prices = input.pricesIncludeVAT ? "prices are taken to include VAT" : "prices are taken to be net";
+            report(kind, minor(sumTotal), lineSum, `Line totals add up to the stated ${otherKey} ${otherTotal}, not the stated ${sumKey} ${sumTotal}, but ${prices}`);
+        } else if (!input.pricesIncludeVAT) {
+            report("net_sum_mismatch", lineSum, minor(sumTotal), `Stated net ${sumTotal} differs from the sum of line totals ${amount(lineSum)} by ${amount(minor(sumTotal) - lineSum)}`);
+        } else if (input.vatRate === null) {
+            // With a rate, the tax engine compares the gross
+            report("gross_sum_mismatch", lineSum, minor(sumTotal), `Stated gross ${sumTotal} differs from the sum of line totals ${amount(lineSum)} by ${amount(minor(sumTotal) - lineSum)}`);
+        }
+    }
+
+    if (stated.net !== undefined && stated.tax !== undefined && stated.gross !== undefined && off(minor(stated.net) + minor(stated.tax), minor(stated.gross))) {
+        const sum = minor(stated.net) + minor(stated.tax);
+        report("header_sum_mismatch", sum, minor(stated.gross), `Stated net ${stated.net} plus VAT ${stated.tax} is ${amount(sum)}, not the stated gross ${stated.gross}`);
+    }
+
+    // Stated VAT, rounded per line or on the total
+    let revealedTaxRounding: TaxRounding | undefined;
+    if (stated.tax !== undefined && input.vatRate !== null && input.lineItems.length > 0) {
+        const vatRate = input.vatRate;
+        const byRounding: Record<TaxRounding, number> = {
+            per_line: input.lineItems.reduce((sum, li) => sum + minor(splitAmount(li.totalPrice, li.vatRate ?? vatRate, input.pricesIncludeVAT, decimals).tax), 0),
+            on_total: minor(taxOnTotal(input.lineItems, vatRate, input.pricesIncludeVAT, decimals).tax)
+        };
+        const actual = minor(stated.tax);
+        if (byRounding.per_line !== byRounding.on_total) {
+            revealedTaxRounding = actual === byRounding.per_line ? "per_line" : actual === byRounding.on_total ? "on_total" : undefined;
+        }
+        const expected = byRounding[taxRounding];
+        if (off(actual, expected)) {
+            const rounding = (["per_line", "on_total"] as TaxRounding[]).find(r => byRounding[r] === actual);
+            const explained = rounding === "on_total" ? " (VAT computed on the total)" : rounding === "per_line" ? " (VAT rounded per line)" : "";
+            report("tax_sum_mismatch", expected, actual, `Stated VAT ${stated.tax} differs from ${amount(expected)} at ${vatRate}% by ${amount(actual - expected)}${explained}`, rounding ? { rounding } : {});
+        }
+    }
+
+    return {
+        findings,
+        observed: {
+            // Lines that disagree on the rounding show no single habit
+            ...(lineModes.size === 1 ? { lineRounding: [...lineModes][0] } : {}),
+            ...(revealedTaxRounding ? { taxRounding: revealedTaxRounding } : {})
+        }
+    };
+}
+
+/**
+ * One line summarizing a check, e.g. "2 arithmetic findings: line_total_mismatch, tax_sum_mismatch".
+ */
+export function describeArithmetic(check: ArithmeticCheck): string {
+    if (check.findings.length === 0) return "Line and total arithmetic consistent";
+    return `${check.findings.length} arithmetic finding(s): ${[...new Set(check.findings.map(f => f.kind))].join(", ")}`;
+}
@@ -0,0 +1,106 @@
+import { DeliveryNote, DeliveryNoteLineItem, ExchangeRate, ExtractedInvoice, FieldCorrection, HumanCorrection, InvoiceFields, LineItem, POLineItem, PurchaseOrder } from '../types';
+import { array, date, nullable, number, object, oneOf, optional, Schema, string, timestamp, unknownValue, validate, ValidationResult } from './schema';
+
+const vendorName = () => string({ collapseWhitespace: true });
+
+const lineItemSchema: Schema<LineItem> = object<LineItem>({
+    description: string({ collapseWhitespace: true }),
+    quantity: number(),
+    unitPrice: number(),
+    totalPrice: number(),
+    sku: optional(nullable(string())),
+    vatRate: optional(number())
+});
+
+const invoiceFieldsSchema: Schema<InvoiceFields> = object<InvoiceFields>({
+    invoiceNumber: string(),
+    invoiceDate: date(),
+    currency: nullable(string({ upperCase: true })),
+    poNumber: optional(nullable(string())),
+    lineItems: array(lineItemSchema)
+});
+
+export const extractedInvoiceSchema: Schema<ExtractedInvoice> = object<ExtractedInvoice>({
+    invoiceId: string(),
+    vendor: vendorName(),
+    fields: invoiceFieldsSchema,
+    rawText: string({ allowEmpty: true })
+});
+
+const fieldCorrectionSchema: Schema<FieldCorrection> = object<FieldCorrection>({
+    field: string(),
+    originalValue: unknownValue(),
+    correctedValue: unknownValue(),
+    reason: string({ allowEmpty: true })
+});
+
+export const humanCorrectionSchema: Schema<HumanCorrection> = object<HumanCorrection>({
+    correctionId: string(),
+    invoiceId: string(),
+    vendor: vendorName(),
+    fieldsCorrected: array(fieldCorrectionSchema),
+    finalDecision: oneOf("approved", "rejected"),
+    timestamp: timestamp(),
+    rawText: optional(string({ allowEmpty: true }))
+});
+
+const poLineItemSchema: Schema<POLineItem> = object<POLineItem>({
+    sku: string(),
+    description: string({ collapseWhitespace: true }),
+    quantity: number(),
+    unitPrice: number()
+});
+
+export const purchaseOrderSchema: Schema<PurchaseOrder> = object<PurchaseOrder>({
+    poNumber: string(),
+    vendor: vendorName(),
+    createdDate: date(),
+    status: string(),
+    currency: optional(string({ upperCase: true })),
+    lineItems: array(poLineItemSchema, { minLength: 1 })
+});
+
+const deliveryNoteLineItemSchema: Schema<DeliveryNoteLineItem> = object<DeliveryNoteLineItem>({
+    sku: nullable(string()),
+    description: string({ collapseWhitespace: true }),
+    quantity: number()
+});
+
+export const deliveryNoteSchema: Schema<DeliveryNote> = object<DeliveryNote>({
+    deliveryNoteNumber: string(),
+    vendor: vendorName(),
+    poNumber: nullable(string()),
+    deliveryDate: date(),
+    lineItems: array(deliveryNoteLineItemSchema, { minLength: 1 })
+});
+
+export const exchangeRateSchema: Schema<ExchangeRate> = object<ExchangeRate>({
+    date: date(),
+    base: string({ upperCase: true }),
+    currency: string({ upperCase: true }),
+    rate: number()
+});
+
+/**
+ * Validates an extracted invoice and normalizes dates to ISO, comma decimals to
+ * numbers, currency codes to upper case and whitespace in names and descriptions.
+ */
+export function validateExtractedInvoice(input: unknown): ValidationResult<ExtractedInvoice> {
+    return validate(extractedInvoiceSchema, input);
+}
+
+export function validateHumanCorrection(input: unknown): ValidationResult<HumanCorrection> {
+    return validate(humanCorrectionSchema, input);
+}
+
+export function validatePurchaseOrder(input: unknown): ValidationResult<PurchaseOrder> {
+    return validate(purchaseOrderSchema, input);
+}
+
+export function validateDeliveryNote(input: unknown): ValidationResult<DeliveryNote> {
+    return validate(deliveryNoteSchema, input);
+}
+
+export function validateExchangeRate(input: unknown): ValidationResult<ExchangeRate> {
+    return validate(exchangeRateSchema, input);
+}
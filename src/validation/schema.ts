@@ -0,0 +1,203 @@
+import { parseAmount } from '../tax/money';
+
+// --- Minimal runtime schemas that validate and normalize in one pass ---
+
+export interface ValidationIssue {
+    /** Field path such as `fields.lineItems[0].quantity`. */
+    path: string;
+    message: string;
+    /** The offending input value. */
+    value?: unknown;
+}
+
+export type ValidationResult<T> =
+    | { ok: true; value: T; issues: [] }
+    | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * Returns the normalized value, or records issues and returns undefined.
+ */
+export type Schema<T> = (input: unknown, path: string, issues: ValidationIssue[]) => T | undefined;
+
+export function validate<T>(schema: Schema<T>, input: unknown): ValidationResult<T> {
+    const issues: ValidationIssue[] = [];
+    const value = schema(input, '', issues);
+    return issues.length === 0 ? { ok: true, value: value as T, issues: [] } : { ok: false, issues };
+}
+
+function fail(issues: ValidationIssue[], path: string, message: string, value: unknown): undefined {
+    issues.push({ path: path || '(root)', message: value === undefined ? "is required" : message, value });
+    return undefined;
+}
+
+function join(path: string, key: string | number): string {
+    return typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+}
+
+/**
+ * Trimmed string; `collapseWhitespace` also folds inner runs of whitespace.
+ */
+export function string(options: { allowEmpty?: boolean; collapseWhitespace?: boolean; upperCase?: boolean } = {}): Schema<string> {
+    return (input, path, issues) => {
+        if (typeof input !== 'string') return fail(issues, path, "must be a string", input);
+        let value = input.trim();
+        if (options.collapseWhitespace) value = value.replace(/\s+/g, ' ');
+        if (options.upperCase) value = value.toUpperCase();
+        if (!options.allowEmpty && value.length === 0) return fail(issues, path, "must not be empty", input);
+        return value;
+    };
+}
+
+/**
+ * A number, or a string such as "5,00" or "1.234,56" read as one.
+ */
+export function number(): Schema<number> {
+    return (input, path, issues) => {
+        if (typeof input === 'number') {
+            return Number.isFinite(input) ? input : fail(issues, path, "must be a finite number", input);
+        }
+        if (typeof input === 'string') {
+            const parsed = parseAmount(input);
+            if (parsed !== null) return parsed;
+        }
+        return fail(issues, path, "must be a number", input);
+    };
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Reads a date and reports the format it was read in, e.g. "DD.MM.YYYY".
+ */
+function readDate(text: string, monthFirst: boolean): { iso: string; format: string } | null {
+    const trimmed = text.trim();
+    const yearFirst = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/) ?? trimmed.match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})$/);
+    if (yearFirst) {
+        const iso = isoDate(Number(yearFirst[1]), Number(yearFirst[2]), Number(yearFirst[3]));
+        const sep = trimmed[4];
+        return iso ? { iso, format: `YYYY${sep}MM${sep}DD` } : null;
+    }
+
+    const match = trimmed.match(/^(\d{1,2})([./-])(\d{1,2})[./-](\d{4}|\d{2})$/);
+    if (!match) return null;
+    const [, first, sep, second, yearText] = match;
+    const year = Number(yearText) + (yearText.length === 2 ? 2000 : 0);
+    const yearFormat = yearText.length === 2 ? 'YY' : 'YYYY';
+    const dayIso = isoDate(year, Number(second), Number(first));
+    const monthIso = isoDate(year, Number(first), Number(second));
+    const dayFirst = dayIso ? { iso: dayIso, format: `DD${sep}MM${sep}${yearFormat}` } : null;
+    const monthFirstRead = monthIso ? { iso: monthIso, format: `MM${sep}DD${sep}${yearFormat}` } : null;
+    return monthFirst ? monthFirstRead ?? dayFirst : dayFirst ?? monthFirstRead;
+}
+
+/**
+ * Parses "2025-01-15", "2025/01/15", "15.01.2025", "15/01/2025" or "15.01.25" to ISO `YYYY-MM-DD`.
+ * Day-first forms are read the European way unless `format` says month first (e.g.
+ * "MM/DD/YYYY") or only the month-first reading is a real date. Returns null otherwise.
+ */
+export function normalizeDate(text: string, format?: string): string | null {
+    return readDate(text, format?.startsWith('MM') ?? false)?.iso ?? null;
+}
+
+/**
+ * The format `normalizeDate` reads a date in, e.g. "DD.MM.YYYY", or null.
+ */
+export function dateFormatOf(text: string, format?: string): string | null {
+    return readDate(text, format?.startsWith('MM') ?? false)?.format ?? null;
+}
+
+export function date(): Schema<string> {
+    return (input, path, issues) => {
+        if (typeof input !== 'string') return fail(issues, path, "must be a date string", input);
+        return normalizeDate(input) ?? fail(issues, path, "must be a date such as 2025-01-15 or 15.01.2025", input);
+    };
+}
+
+/**
+ * An ISO timestamp; kept as given once it parses.
+ */
+export function timestamp(): Schema<string> {
+    return (input, path, issues) => {
+        if (typeof input !== 'string' || Number.isNaN(Date.parse(input))) return fail(issues, path, "must be an ISO timestamp", input);
+        return input.trim();
+    };
+}
+
+export function oneOf<T extends string>(...values: T[]): Schema<T> {
+    return (input, path, issues) => {
+        const candidate = typeof input === 'string' ? input.trim().toLowerCase() : input;
+        return values.includes(candidate as T) ? candidate as T : fail(issues, path, `must be one of ${values.join(', ')}`, input);
+    };
+}
+
+/**
+ * Accepts any value unchanged.
+ */
+export function unknownValue(): Schema<unknown> {
+    return input => input;
+}
+
+/**
+ * Null, undefined and empty strings become null.
+ */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+    return (input, path, issues) => {
+        if (input === null || input === undefined || (typeof input === 'string' && input.trim() === '')) return null;
+        return schema(input, path, issues);
+    };
+}
+
+/**
+ * A missing value stays missing; anything else must match the schema.
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+    return (input, path, issues) => input === undefined ? undefined : schema(input, path, issues);
+}
+
+export function array<T>(item: Schema<T>, options: { minLength?: number } = {}): Schema<T[]> {
+    return (input, path, issues) => {
+        if (!Array.isArray(input)) return fail(issues, path, "must be an array", input);
+        if (options.minLength !== undefined && input.length < options.minLength) {
+            return fail(issues, path, `must have at least ${options.minLength} item(s)`, input);
+        }
+        const before = issues.length;
+        const values = input.map((element, i) => item(element, join(path, i), issues));
+        return issues.length === before ? values as T[] : undefined;
+    };
+}
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+/**
+ * An object with the given fields. Unknown fields are dropped; optional
+ * fields that are missing stay absent in the output.
+ */
+export function object<T>(shape: Shape<T>): Schema<T> {
+    return (input, path, issues) => {
+        if (typeof input !== 'object' || input === null || Array.isArray(input)) return fail(issues, path, "must be an object", input);
+        const source = input as Record<string, unknown>;
+        const before = issues.length;
+        const output: Record<string, unknown> = {};
+        for (const key of Object.keys(shape) as Array<keyof T & string>) {
+            const value = shape[key](source[key], join(path, key), issues);
+            if (value !== undefined) output[key] = value;
+        }
+        return issues.length === before ? output as T : undefined;
+    };
+}
+
+export function formatIssues(issues: ValidationIssue[]): string[] {
+    return issues.map(issue => `${issue.path} ${issue.message}`);
+}
+
+/** Thrown where an invalid document cannot be routed anywhere else. */
+export class ValidationError extends Error {
+    constructor(readonly what: string, readonly issues: ValidationIssue[]) {
+        super(`Invalid ${what}: ${formatIssues(issues).join('; ')}`);
+        this.name = 'ValidationError';
+    }
+}
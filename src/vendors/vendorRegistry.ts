@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { normalizeVendorName } from '../duplicates/duplicateDetector';
+import { descriptionSimilarity } from '../matching/threeWayMatch';
+import { mergeCorrectionMemory } from '../memory/correctionMemory';
+import { mergeCandidates } from '../memory/candidateMemory';
+import { mergeDuplicateVendor } from '../memory/duplicateMemory';
+import { getMemoryStore, MemoryStore } from '../memory/memoryStore';
+import { mergeResolutions } from '../memory/resolutionMemory';
+import { mergeVendorMemory } from '../memory/vendorMemory';
+import { ReviewItem } from '../review/reviewQueue';
+
+export interface VendorIdentity {
+    /** Canonical ID that all memory of this vendor is keyed by. */
+    vendorId: string;
+    /** Canonical display name. */
+    name: string;
+    /** Other spellings seen on invoices, e.g. "SUPPLIER GMBH". */
+    aliases: string[];
+    vatIds: string[];
+    ibans: string[];
+    /** Set when this vendor was merged into another; resolution follows it. */
+    mergedInto?: string;
+}
+
+export type VendorMatch = "id" | "name" | "alias" | "vatId" | "iban" | "fuzzy" | "new";
+
+export interface VendorResolution {
+    vendorId: string;
+    name: string;
+    matchedBy: VendorMatch;
+    confidence: number;
+    /** Vendor a newly registered spelling resembles; it shares no memory until `confirmAlias` links them. */
+    suggestedVendorId?: string;
+}
+
+const MATCH_CONFIDENCE: Record<VendorMatch, number> = {
+    id: 1, name: 1, alias: 1, vatId: 1, iban: 1, fuzzy: 0.8, new: 0
+};
+
+const FUZZY_THRESHOLD = 0.8;
+
+/** Uppercases and drops spaces, so "DE 123 456 789" matches "DE123456789". */
+function compact(text: string): string {
+    return text.toUpperCase().replace(/[\s.-]/g, '');
+}
+
+function slugOf(name: string): string {
+    return normalizeVendorName(name).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'vendor';
+}
+
+/**
+ * Loads vendor master data (`data/vendors.json` by default).
+ */
+export function loadVendors(filePath: string = path.resolve(__dirname, '../data/vendors.json')): VendorIdentity[] {
+    const vendors = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Array<Partial<VendorIdentity> & Pick<VendorIdentity, 'vendorId' | 'name'>>;
+    return vendors.map(v => ({ aliases: [], vatIds: [], ibans: [], ...v }));
+}
+
+/**
+ * Vendor master registry, persisted in the `vendorIdentity` collection.
+ *
+ * Resolves the vendor spelling on an invoice to a canonical vendor ID: by ID, name
+ * or alias (ignoring case and punctuation), by a VAT ID or IBAN printed in the raw
+ * text, and finally by fuzzy name similarity. Unknown vendors are registered as new,
+ * and so are fuzzy matches on ingest: a similar name may well be another company.
+ */
+export class VendorRegistry {
+    constructor(private readonly store: MemoryStore = getMemoryStore()) {}
+
+    /**
+     * Adds master data for vendors that are not registered yet. Existing entries,
+     * which may carry learned aliases or merges, are left alone.
+     */
+    seed(identities: VendorIdentity[]): void {
+        this.store.transaction(() => {
+            for (const identity of identities) {
+                if (!this.get(identity.vendorId)) this.register(identity);
+            }
+        });
+    }
+
+    register(identity: VendorIdentity): VendorIdentity {
+        this.store.put('vendorIdentity', identity.vendorId, identity);
+        return identity;
+    }
+
+    get(vendorId: string): VendorIdentity | null {
+        return this.store.get<VendorIdentity>('vendorIdentity', vendorId);
+    }
+
+    /**
+     * Active vendors, i.e. without those merged into another.
+     */
+    list(): VendorIdentity[] {
+        return Object.values(this.store.getAll<VendorIdentity>('vendorIdentity'))
+            .filter(v => !v.mergedInto)
+            .sort((a, b) => a.vendorId.localeCompare(b.vendorId));
+    }
+
+    /**
+     * Finds the vendor for a spelling and optional raw document text, or null.
+     */
+    resolve(vendorName: string, rawText: string = ""): VendorResolution | null {
+        const all = this.store.getAll<VendorIdentity>('vendorIdentity');
+        const found = this.match(vendorName, rawText, Object.values(all));
+        if (!found) return null;
+        let identity = found.identity;
+        // Follow merges to the surviving vendor
+        for (let hops = 0; identity.mergedInto && all[identity.mergedInto] && hops < 10; hops++) {
+            identity = all[identity.mergedInto];
+        }
+        return { vendorId: identity.vendorId, name: identity.name, matchedBy: found.matchedBy, confidence: MATCH_CONFIDENCE[found.matchedBy] };
+    }
+
+    /**
+     * Resolves a vendor, registering it under a new ID when nothing matches. A fuzzy
+     * match is registered as well, with the similar vendor as `suggestedVendorId`.
+     */
+    resolveOrRegister(vendorName: string, rawText: string = ""): VendorResolution {
+        const resolved = this.resolve(vendorName, rawText);
+        if (resolved && resolved.matchedBy !== "fuzzy") return resolved;
+        const suggested = resolved ? { suggestedVendorId: resolved.vendorId } : {};
+        const name = vendorName.trim().replace(/\s+/g, ' ');
+        let vendorId = slugOf(name);
+        for (let n = 2; this.get(vendorId); n++) vendorId = `${slugOf(name)}-${n}`;
+        this.register({ vendorId, name, aliases: [], vatIds: [], ibans: [] });
+        return { vendorId, name, matchedBy: "new", confidence: MATCH_CONFIDENCE.new, ...suggested };
+    }
+
+    /**
+     * Records a confirmed alias. If the alias had been registered as a vendor of its
+     * own, that vendor and all of its memory are merged into `vendorId`.
+     */
+    confirmAlias(vendorId: string, alias: string): VendorIdentity {
+        return this.store.transaction(() => {
+            const target = this.requireVendor(vendorId);
+            const existing = this.resolve(alias);
+            if (existing && existing.vendorId !== vendorId && existing.matchedBy !== "fuzzy") {
+                return this.merge(existing.vendorId, vendorId);
+            }
+            if (!target.aliases.some(a => normalizeVendorName(a) === normalizeVendorName(alias))) {
+                target.aliases.push(alias.trim());
+                this.register(target);
+            }
+            return target;
+        });
+    }
+
+    /**
+     * Merges vendor `fromId` into `intoId`: names, aliases, VAT IDs and IBANs are
+     * combined and every memory keyed by `fromId` is moved to `intoId`.
+     */
+    merge(fromId: string, intoId: string): VendorIdentity {
+        if (fromId === intoId) throw new Error(`Cannot merge vendor '${fromId}' into itself`);
+        return this.store.transaction(() => {
+            const from = this.requireVendor(fromId);
+            const into = this.requireVendor(intoId);
+            const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+            into.aliases = union(into.aliases, [from.name, ...from.aliases]).filter(a => a !== into.name);
+            into.vatIds = union(into.vatIds, from.vatIds);
+            into.ibans = union(into.ibans, from.ibans);
+            this.register(into);
+            this.register({ ...from, mergedInto: intoId });
+
+            mergeVendorMemory(fromId, intoId, this.store);
+            mergeCorrectionMemory(fromId, intoId, this.store);
+            mergeCandidates(fromId, intoId, this.store);
+            mergeResolutions(`VENDOR:${fromId}:`, `VENDOR:${intoId}:`, this.store);
+            mergeDuplicateVendor(fromId, intoId, this.store);
+            for (const item of Object.values(this.store.getAll<ReviewItem>('review'))) {
+                if (item.vendorId !== fromId) continue;
+                this.store.put<ReviewItem>('review', item.reviewId, { ...item, vendorId: intoId, vendor: into.name });
+            }
+            return into;
+        });
+    }
+
+    private requireVendor(vendorId: string): VendorIdentity {
+        const identity = this.get(vendorId);
+        if (!identity) throw new Error(`Vendor '${vendorId}' not found`);
+        return identity;
+    }
+
+    private match(vendorName: string, rawText: string, identities: VendorIdentity[]): { identity: VendorIdentity; matchedBy: VendorMatch } | null {
+        const byId = identities.find(v => v.vendorId === vendorName);
+        if (byId) return { identity: byId, matchedBy: "id" };
+
+        const normalized = normalizeVendorName(vendorName);
+        const byName = identities.find(v => normalizeVendorName(v.name) === normalized);
+        if (byName) return { identity: byName, matchedBy: "name" };
+        const byAlias = identities.find(v => v.aliases.some(a => normalizeVendorName(a) === normalized));
+        if (byAlias) return { identity: byAlias, matchedBy: "alias" };
+
+        const text = compact(rawText);
+        if (text.length > 0) {
+            const byVat = identities.find(v => v.vatIds.some(id => text.includes(compact(id))));
+            if (byVat) return { identity: byVat, matchedBy: "vatId" };
+            const byIban = identities.find(v => v.ibans.some(iban => text.includes(compact(iban))));
+            if (byIban) return { identity: byIban, matchedBy: "iban" };
+        }
+
+        // "Supplier GmbH, Berlin" starts with a known name; otherwise compare word overlap
+        let best: VendorIdentity | null = null;
+        let bestScore = 0;
+        for (const identity of identities.filter(v => !v.mergedInto)) {
+            for (const known of [identity.name, ...identity.aliases].map(normalizeVendorName)) {
+                const score = normalized.startsWith(`${known} `) ? 1 : descriptionSimilarity(known, normalized);
+                if (score > bestScore) {
+                    best = identity;
+                    bestScore = score;
+                }
+            }
+        }
+        return best && bestScore >= FUZZY_THRESHOLD ? { identity: best, matchedBy: "fuzzy" } : null;
+    }
+}
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DecisionInput, DEFAULT_DECISION_POLICY, evaluateDecision, explainDecision } from '../../src/decision/decisionPolicy';
+import { LineMatch } from '../../src/matching/threeWayMatch';
+import { ProposedCorrection } from '../../src/types';
+
+function input(overrides: Partial<DecisionInput> = {}): DecisionInput {
+    return {
+        proposals: [],
+        validationIssues: [],
+        duplicateCheck: null,
+        match: null,
+        tax: null,
+        arithmetic: null,
+        currencyCheck: null,
+        amount: 1000,
+        currency: "EUR",
+        vendorConfidence: 0.9,
+        ...overrides
+    };
+}
+
+function proposal(overrides: Partial<ProposedCorrection> = {}): ProposedCorrection {
+    return {
+        proposalId: "p1",
+        field: "poNumber",
+        oldValue: null,
+        newValue: "PO-1",
+        description: "Set poNumber = PO-1",
+        patternId: null,
+        reason: "test",
+        confidence: 0.8,
+        autoApplied: true,
+        memoryId: "VENDOR:v:poNumber",
+        ...overrides
+    };
+}
+
+function line(overrides: Partial<LineMatch> = {}): LineMatch {
+    return {
+        lineIndex: 0,
+        status: "matched",
+        quantityStatus: "matched",
+        priceStatus: "matched",
+        matchedBy: "sku",
+        poLine: { sku: "A", description: "Widget", quantity: 10, unitPrice: 5 },
+        deliveryNoteNumbers: [],
+        invoiceQuantity: 10,
+        orderedQuantity: 10,
+        deliveredQuantity: null,
+        quantityVariance: 0,
+        invoiceUnitPrice: 5,
+        poUnitPrice: 5,
+        unitPriceVariancePercent: 0,
+        ...overrides
+    };
+}
+
+const kinds = (decision: ReturnType<typeof evaluateDecision>) => decision.factors.filter(f => f.forcesReview).map(f => f.kind);
+
+describe('evaluateDecision', () => {
+    it('approves when nothing forces review and every confidence reaches minScore', () => {
+        const decision = evaluateDecision(input({ proposals: [proposal({ confidence: 0.7 })] }));
+        assert.equal(decision.requiresHumanReview, false);
+        assert.equal(decision.confidenceScore, 0.7);
+        assert.equal(explainDecision(decision), "All actions applied with high confidence.");
+    });
+
+    it('requires review without vendor memory', () => {
+        const decision = evaluateDecision(input({ vendorConfidence: null }));
+        assert.equal(decision.requiresHumanReview, true);
+        assert.deepEqual(kinds(decision), ["vendor_memory"]);
+        assert.equal(decision.confidenceScore, 0);
+    });
+
+    it('requires review for a proposal that was not auto-applied', () => {
+        const decision = evaluateDecision(input({ proposals: [proposal({ autoApplied: false, confidence: 0.4 })] }));
+        assert.equal(decision.requiresHumanReview, true);
+        assert.deepEqual(decision.factors.find(f => f.kind === "proposal"), {
+            kind: "proposal", confidence: 0.4, forcesReview: true, reason: "Needs review: Set poNumber = PO-1.", ref: "p1"
+        });
+    });
+
+    it('scores with the lowest confidence and reviews below minScore', () => {
+        const decision = evaluateDecision(input({ vendorConfidence: 0.5 }));
+        assert.equal(decision.confidenceScore, 0.5);
+        assert.equal(decision.requiresHumanReview, true);
+        assert.equal(explainDecision(decision), "Vendor memory confidence 0.5 is below 0.6.");
+    });
+
+    it('reports a price variance alongside a quantity variance on the same line', () => {
+        const match = {
+            poNumber: "PO-1",
+            status: "variance" as const,
+            lines: [line({ status: "quantity_variance", quantityStatus: "variance", priceStatus: "variance", invoiceQuantity: 12, quantityVariance: 2, unitPriceVariancePercent: 10 })]
+        };
+        const decision = evaluateDecision(input({ match }));
+        assert.deepEqual(decision.factors.filter(f => f.kind === "match_variance").map(f => f.reason), [
+            "Line 1 deviates 10% from the PO price.",
+            "Line 1 bills 12, ordered 10."
+        ]);
+    });
+
+    it('does not review a quantity variance an auto-applied delivery note quantity settled', () => {
+        const match = {
+            poNumber: "PO-1",
+            status: "variance" as const,
+            lines: [line({ status: "quantity_variance", quantityStatus: "variance", invoiceQuantity: 12, deliveredQuantity: 10, quantityVariance: 2 })]
+        };
+        const settled = proposal({ field: "lineItems[0].quantity", oldValue: 12, newValue: 10, description: "Set quantity = 10" });
+        assert.equal(evaluateDecision(input({ match, proposals: [settled] })).requiresHumanReview, false);
+        assert.deepEqual(kinds(evaluateDecision(input({ match }))), ["match_variance"]);
+        assert.equal(evaluateDecision(input({ match }), { ...DEFAULT_DECISION_POLICY, reviewMatchVariance: false }).requiresHumanReview, false);
+    });
+
+    it('reviews amounts at or above the limit, and amounts it cannot convert into the base currency', () => {
+        const policy = { ...DEFAULT_DECISION_POLICY, reviewAmountAbove: 1000 };
+        assert.deepEqual(kinds(evaluateDecision(input(), policy)), ["amount"]);
+        assert.equal(evaluateDecision(input({ amount: 999.99 }), policy).requiresHumanReview, false);
+        assert.deepEqual(kinds(evaluateDecision(input({ amount: 10, currency: "USD", baseCurrency: "EUR" }), policy)), ["exchange_rate"]);
+    });
+
+    it('reviews tax computed with an unconfirmed learned VAT rate', () => {
+        const tax = {
+            vatRate: 19, rateSource: "vendorMemory" as const, pricesIncludeVAT: false, taxRounding: "per_line" as const,
+            lines: [], totals: { net: 100, tax: 19, gross: 119 }, statedTotal: null, discrepancies: []
+        };
+        const decision = evaluateDecision(input({ tax, unconfirmedVatRate: 0.5 }));
+        assert.deepEqual(kinds(decision), ["vat_rate"]);
+        assert.equal(decision.confidenceScore, 0.5);
+        assert.equal(evaluateDecision(input({ tax })).requiresHumanReview, false);
+    });
+});
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { matchInvoiceLines } from '../../src/matching/threeWayMatch';
+import { DeliveryNote, LineItem, PurchaseOrder } from '../../src/types';
+
+const PO: PurchaseOrder = {
+    poNumber: "PO-1",
+    vendor: "Supplier GmbH",
+    createdDate: "2025-01-01",
+    status: "open",
+    lineItems: [
+        { sku: "WID-1", description: "Widget large", quantity: 100, unitPrice: 10 },
+        { sku: "BOLT-2", description: "Steel bolt M8", quantity: 50, unitPrice: 2 }
+    ]
+};
+
+function item(overrides: Partial<LineItem> = {}): LineItem {
+    return { sku: "WID-1", description: "Widget large", quantity: 100, unitPrice: 10, totalPrice: 1000, ...overrides };
+}
+
+function note(deliveryNoteNumber: string, quantity: number, poNumber: string = "PO-1"): DeliveryNote {
+    return { deliveryNoteNumber, vendor: "Supplier GmbH", poNumber, deliveryDate: "2025-01-05", lineItems: [{ sku: "WID-1", description: "Widget large", quantity }] };
+}
+
+describe('matchInvoiceLines', () => {
+    it('matches lines by SKU, and by description without one', () => {
+        const result = matchInvoiceLines([item(), item({ sku: null, description: "steel bolts M8", quantity: 50, unitPrice: 2, totalPrice: 100 })], PO, []);
+        assert.equal(result.status, "matched");
+        assert.deepEqual(result.lines.map(l => l.matchedBy), ["sku", "description"]);
+        assert.deepEqual(result.lines.map(l => l.quantityStatus), ["matched", "matched"]);
+    });
+
+    it('checks quantity and price independently', () => {
+        const [line] = matchInvoiceLines([item({ quantity: 100, unitPrice: 11 })], PO, [note("DN-1", 90)]).lines;
+        assert.equal(line.status, "quantity_variance");
+        assert.equal(line.quantityStatus, "variance");
+        assert.equal(line.quantityVariance, 10);
+        assert.equal(line.priceStatus, "variance");
+        assert.equal(line.unitPriceVariancePercent, 10);
+    });
+
+    it('accepts a price within the tolerance', () => {
+        const [line] = matchInvoiceLines([item({ unitPrice: 10.05 })], PO, []).lines;
+        assert.equal(line.priceStatus, "matched");
+        assert.equal(line.unitPriceVariancePercent, 0.5);
+    });
+
+    it('sums delivery notes of the PO and ignores those of other POs', () => {
+        const [line] = matchInvoiceLines([item()], PO, [note("DN-1", 60), note("DN-2", 40), note("DN-3", 5, "PO-2")]).lines;
+        assert.equal(line.deliveredQuantity, 100);
+        assert.deepEqual(line.deliveryNoteNumbers, ["DN-1", "DN-2"]);
+        assert.equal(line.status, "matched");
+    });
+
+    it('compares with the ordered quantity without delivery notes', () => {
+        const [line] = matchInvoiceLines([item({ quantity: 120 })], PO, []).lines;
+        assert.equal(line.deliveredQuantity, null);
+        assert.equal(line.quantityVariance, 20);
+        assert.equal(line.status, "quantity_variance");
+    });
+
+    it('reports lines missing from the PO as unmatched', () => {
+        const result = matchInvoiceLines([item(), item({ sku: "X-9", description: "Consulting hours" })], PO, []);
+        assert.equal(result.status, "unmatched");
+        assert.equal(result.lines[1].status, "unmatched");
+        assert.equal(result.lines[1].priceStatus, null);
+        assert.equal(matchInvoiceLines([item()], null, []).lines[0].status, "unmatched");
+    });
+});
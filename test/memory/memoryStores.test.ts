@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { JsonFileMemoryStore } from '../../src/memory/jsonFileStore';
+import { MemoryStore } from '../../src/memory/memoryStore';
+import { SqliteMemoryStore } from '../../src/memory/sqliteStore';
+
+interface Backend {
+    name: string;
+    /** Opens the store kept in `directory`, again after a close to read what was persisted. */
+    open(directory: string): Promise<MemoryStore>;
+}
+
+const BACKENDS: Backend[] = [
+    { name: "JsonFileMemoryStore", open: async directory => new JsonFileMemoryStore(directory) },
+    { name: "SqliteMemoryStore", open: directory => SqliteMemoryStore.open(path.join(directory, 'memory.sqlite')) }
+];
+
+for (const backend of BACKENDS) {
+    describe(`${backend.name} transactions`, () => {
+        let directory: string;
+        let store: MemoryStore;
+
+        beforeEach(async () => {
+            directory = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-store-'));
+            store = await backend.open(directory);
+        });
+
+        afterEach(() => {
+            store.close();
+            fs.rmSync(directory, { recursive: true, force: true });
+        });
+
+        it('commits every write of a transaction and persists it', async () => {
+            store.transaction(() => {
+                store.put('vendor', 'a', { value: 1 });
+                store.put('correction', 'b', { value: 2 });
+            });
+            store.close();
+            store = await backend.open(directory);
+            assert.deepEqual(store.get('vendor', 'a'), { value: 1 });
+            assert.deepEqual(store.get('correction', 'b'), { value: 2 });
+        });
+
+        it('rolls back puts and deletes when the work throws', async () => {
+            store.put('vendor', 'kept', { value: 1 });
+            store.put('vendor', 'deleted', { value: 2 });
+
+            assert.throws(() => store.transaction(() => {
+                store.put('vendor', 'kept', { value: 10 });
+                store.put('vendor', 'added', { value: 3 });
+                store.delete('vendor', 'deleted');
+                throw new Error("boom");
+            }), /boom/);
+
+            assert.deepEqual(store.getAll('vendor'), { kept: { value: 1 }, deleted: { value: 2 } });
+            store.close();
+            store = await backend.open(directory);
+            assert.deepEqual(store.getAll('vendor'), { kept: { value: 1 }, deleted: { value: 2 } });
+        });
+
+        it('rolls back a cleared collection', () => {
+            store.put('duplicate', 'a', { seenCount: 1 });
+            assert.throws(() => store.transaction(() => {
+                store.clear('duplicate');
+                throw new Error("boom");
+            }));
+            assert.deepEqual(store.get('duplicate', 'a'), { seenCount: 1 });
+        });
+
+        it('joins nested transactions to the outermost one', () => {
+            assert.throws(() => store.transaction(() => {
+                store.transaction(() => store.put('vendor', 'inner', { value: 1 }));
+                throw new Error("boom");
+            }));
+            assert.equal(store.get('vendor', 'inner'), null);
+        });
+
+        it('returns copies, so a read record changes nothing until it is put back', () => {
+            store.put('vendor', 'a', { value: 1 });
+            const read = store.get<{ value: number }>('vendor', 'a')!;
+            read.value = 2;
+            assert.deepEqual(store.get('vendor', 'a'), { value: 1 });
+        });
+    });
+}
+
+describe('JsonFileMemoryStore log', () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-store-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('drops a commit cut short by a crash and keeps the ones before it', () => {
+        const committed = JSON.stringify({ changes: [{ collection: 'vendor', key: 'a', value: { value: 1 } }] });
+        fs.writeFileSync(path.join(directory, 'memoryLog.ndjson'), `${committed}\n{"changes":[{"collection":"vendor","key":"b"`);
+
+        const store = new JsonFileMemoryStore(directory);
+        assert.deepEqual(store.getAll('vendor'), { a: { value: 1 } });
+        store.put('vendor', 'c', { value: 3 });
+        store.close();
+
+        const reopened = new JsonFileMemoryStore(directory);
+        assert.deepEqual(reopened.getAll('vendor'), { a: { value: 1 }, c: { value: 3 } });
+        reopened.close();
+    });
+});
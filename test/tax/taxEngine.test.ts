@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { computeTax, TaxInput } from '../../src/tax/taxEngine';
+import { LineItem } from '../../src/types';
+
+function item(totalPrice: number, overrides: Partial<LineItem> = {}): LineItem {
+    return { description: "Item", quantity: 1, unitPrice: totalPrice, totalPrice, ...overrides };
+}
+
+function tax(lineItems: LineItem[], overrides: Partial<TaxInput> = {}) {
+    return computeTax({ lineItems, pricesIncludeVAT: false, vatRate: 19, rateSource: "rawText", ...overrides });
+}
+
+describe('computeTax', () => {
+    it('adds VAT to net line totals and sums the rounded lines', () => {
+        const result = tax([item(100), item(33.33)]);
+        assert.deepEqual(result.lines.map(l => l.tax), [19, 6.33]);
+        assert.deepEqual(result.totals, { net: 133.33, tax: 25.33, gross: 158.66 });
+        assert.deepEqual(result.discrepancies, []);
+    });
+
+    it('derives net from gross line totals when prices include VAT', () => {
+        const result = tax([item(119)], { pricesIncludeVAT: true });
+        assert.deepEqual(result.totals, { net: 100, tax: 19, gross: 119 });
+    });
+
+    it('applies a line rate over the invoice rate', () => {
+        const result = tax([item(100), item(100, { vatRate: 7 })]);
+        assert.deepEqual(result.lines.map(l => l.vatRate), [19, 7]);
+        assert.deepEqual(result.totals, { net: 200, tax: 26, gross: 226 });
+    });
+
+    it('rounds per line by default and once on the total when asked', () => {
+        const lines = [item(0.03), item(0.03), item(0.03)];
+        assert.equal(tax(lines).totals.tax, 0.03);
+        assert.equal(tax(lines, { taxRounding: "on_total" }).totals.tax, 0.02);
+    });
+
+    it('rounds half away from zero, also for credit notes', () => {
+        assert.equal(tax([item(0.05)], { vatRate: 10 }).totals.tax, 0.01);
+        assert.equal(tax([item(-0.05)], { vatRate: 10 }).totals.tax, -0.01);
+    });
+
+    it('rounds in the minor units of the currency', () => {
+        assert.deepEqual(tax([item(999)], { vatRate: 10, decimals: 0 }).totals, { net: 999, tax: 100, gross: 1099 });
+    });
+
+    it('reports a stated total that equals the net amount', () => {
+        const [discrepancy] = tax([item(100)], { statedTotal: 100 }).discrepancies;
+        assert.equal(discrepancy.kind, "stated_total_is_net");
+        assert.equal(discrepancy.expected, 119);
+    });
+
+    it('reports a stated total that differs from the computed gross', () => {
+        const [discrepancy] = tax([item(100)], { statedTotal: 118.5 }).discrepancies;
+        assert.equal(discrepancy.kind, "total_mismatch");
+        assert.equal(discrepancy.difference, -0.5);
+        assert.deepEqual(tax([item(100)], { statedTotal: 119 }).discrepancies, []);
+    });
+});